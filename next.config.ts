@@ -2,6 +2,10 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  experimental: {
+    // Manual uploads go through a server action; match DOWNLOAD_MAX_BYTES
+    serverActions: { bodySizeLimit: '20mb' },
+  },
   images: {
     remotePatterns: [
       { protocol: 'https', hostname: 'pixabay.com', pathname: '/get/**' },
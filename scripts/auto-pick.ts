@@ -0,0 +1,50 @@
+/**
+ * Fills every image a location is missing for `REQUIRED_IMAGE_ROLES` with
+ * the best-scoring candidate.
+ *
+ *   npm run auto-pick -- --dry-run --limit 20 --source pixabay,pexels
+ *
+ * Prints the per-row JSON report to stdout; exits non-zero if any row failed.
+ */
+import { parseArgs } from 'node:util';
+import { loadEnvConfig } from '@next/env';
+import { autoPick } from '../src/app/lib/auto-pick';
+
+loadEnvConfig(process.cwd());
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`Not a number: ${value}`);
+  return n;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      concurrency: { type: 'string' },
+      limit: { type: 'string' },
+      source: { type: 'string' },
+      'min-width': { type: 'string' },
+      'min-height': { type: 'string' },
+    },
+  });
+
+  const report = await autoPick({
+    dryRun: values['dry-run'],
+    concurrency: optionalNumber(values.concurrency),
+    limit: optionalNumber(values.limit),
+    sources: values.source?.split(',').map((s) => s.trim()),
+    minWidth: optionalNumber(values['min-width']),
+    minHeight: optionalNumber(values['min-height']),
+  });
+
+  process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  if (report.counts.error > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
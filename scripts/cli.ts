@@ -0,0 +1,363 @@
+/**
+ * Headless access to the picker, for cron jobs and pipelines.
+ *
+ *   npm run cli -- status
+ *   npm run cli -- search <city> <country> [--source pixabay|all|a,b] [--query q]
+ *                         [--page n] [--per-page n]
+ *   npm run cli -- assign <city> <country> <provider:id> [--url imageUrl]
+ *                         [--role hero|thumbnail|gallery] [--focus x,y]
+ *   npm run cli -- alias <city> <country> [<name>]
+ *                         [--kind local|historical|other] [--remove]
+ *   npm run cli -- import-csv <file>     (or the CSV on stdin)
+ *   npm run cli -- export-csv [--out file]
+ *   npm run cli -- import-geonames <file> [--admin1 admin1CodesASCII.txt]
+ *                         [--min-population n] [--country FR,IT] [--type City]
+ *                         [--dry-run]
+ *   npm run cli -- share-cards [--format og,square,story] [--out dir]
+ *
+ * Results are printed to stdout as JSON (export-csv prints the CSV itself
+ * unless --out is given; share-cards writes PNGs to --out, by default
+ * public/cards). Errors are printed to stderr as `{ "error": ... }`
+ * and exit non-zero.
+ */
+import fs from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { loadEnvConfig } from '@next/env';
+import {
+  addAlias,
+  ALIAS_KINDS,
+  isAliasKind,
+  removeAlias,
+} from '../src/app/lib/aliases';
+import { assignImage } from '../src/app/lib/downloads';
+import { parseAdmin1Codes, parseGeoNames } from '../src/app/lib/geonames';
+import { historyKey } from '../src/app/lib/history';
+import { parseFocalPoint } from '../src/app/lib/image-processing';
+import {
+  IMAGE_ROLES,
+  isImageRole,
+  missingRoles,
+  requiredRoles,
+} from '../src/app/lib/image-roles';
+import {
+  exportLocationsCsv,
+  importLocationsCsv,
+  loadLocations,
+  mergeGeoPlaces,
+} from '../src/app/lib/locations';
+import { writeManifest } from '../src/app/lib/manifest';
+import {
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  selectProviders,
+} from '../src/app/lib/providers';
+import { withQuality } from '../src/app/lib/quality';
+import { findLocationHit, searchSources } from '../src/app/lib/search';
+import {
+  CARD_FORMATS,
+  exportShareCards,
+  isCardFormat,
+} from '../src/app/lib/share-cards';
+import { listSkips } from '../src/app/lib/skips';
+
+loadEnvConfig(process.cwd());
+
+type Values = Record<string, string | boolean | undefined>;
+
+type Counts = { total: number; complete: number; incomplete: number };
+
+class UsageError extends Error {}
+
+function print(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`Not a number: ${value}`);
+  return n;
+}
+
+function requireArgs(args: string[], names: string[]): string[] {
+  if (args.length < names.length) {
+    throw new UsageError(`Expected ${names.map((n) => `<${n}>`).join(' ')}`);
+  }
+  return args.slice(0, names.length).map((a) => a.trim());
+}
+
+async function findLocation(city: string, country: string) {
+  const locations = await loadLocations();
+  const location = locations.find(
+    (l) => l.city === city && l.country === country
+  );
+  if (!location) throw new UsageError(`No location ${city}, ${country}`);
+  return location;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function status() {
+  const [locations, skips] = await Promise.all([loadLocations(), listSkips()]);
+  const skipped = new Set(skips.map((s) => historyKey(s.city, s.country)));
+  const emptyCounts = (): Counts => ({ total: 0, complete: 0, incomplete: 0 });
+  const required = requiredRoles();
+  const totals = emptyCounts();
+  const byRole: Record<string, number> = {};
+  const byCountry: Record<string, Counts> = {};
+  const byType: Record<string, Counts> = {};
+  const count = (counts: Counts, complete: boolean) => {
+    counts.total += 1;
+    if (complete) counts.complete += 1;
+    else counts.incomplete += 1;
+  };
+  let skippedCount = 0;
+  for (const location of locations) {
+    const missing = missingRoles(location.images, required);
+    const complete = missing.length === 0;
+    if (!complete && skipped.has(historyKey(location.city, location.country))) {
+      skippedCount += 1;
+    }
+    for (const role of missing) byRole[role] = (byRole[role] ?? 0) + 1;
+    const type = location.type || 'unknown';
+    count(totals, complete);
+    count((byCountry[location.country] ??= emptyCounts()), complete);
+    count((byType[type] ??= emptyCounts()), complete);
+  }
+  print({
+    ...totals,
+    required,
+    skipped: skippedCount,
+    // Incomplete rows missing each role
+    missing: byRole,
+    byCountry,
+    byType,
+  });
+}
+
+async function search(args: string[], values: Values) {
+  const [city, country] = requireArgs(args, ['city', 'country']);
+  const location = await findLocation(city!, country!);
+  const providers = selectProviders(
+    String(values.source || DEFAULT_PROVIDER_ID)
+  );
+  const result = await searchSources(providers, {
+    query: typeof values.query === 'string' ? values.query : undefined,
+    location,
+    page: Math.max(optionalNumber(values.page) ?? 1, 1),
+    perPage: Math.min(optionalNumber(values['per-page']) ?? 12, 50),
+  });
+  print({ ...result, hits: withQuality(result.hits) });
+}
+
+async function assign(args: string[], values: Values) {
+  const [city, country, ref] = requireArgs(args, [
+    'city',
+    'country',
+    'provider:id',
+  ]);
+  const separator = ref!.indexOf(':');
+  if (separator <= 0) throw new UsageError('Expected <provider:id>');
+  const source = ref!.slice(0, separator).toLowerCase();
+  const imageId = ref!.slice(separator + 1);
+  const provider = getProvider(source);
+  if (!provider) throw new UsageError(`Unknown source: ${source}`);
+  const role = typeof values.role === 'string' ? values.role : 'hero';
+  if (!isImageRole(role)) {
+    throw new UsageError(
+      `Unknown role: ${role} (${Object.keys(IMAGE_ROLES).join(', ')})`
+    );
+  }
+  const focus = typeof values.focus === 'string' ? values.focus : '';
+  const crop = focus ? parseFocalPoint(focus) : undefined;
+  if (focus && !crop) {
+    throw new UsageError(`Invalid focus: ${focus} (x,y between 0 and 1)`);
+  }
+  const location = await findLocation(city!, country!);
+
+  let imageUrl = typeof values.url === 'string' ? values.url : '';
+  let attribution = {};
+  if (!imageUrl) {
+    const hit = await findLocationHit(provider, location, imageId);
+    if (!hit) {
+      throw new UsageError(
+        `${ref} is not among the search results for ${city}; pass --url`
+      );
+    }
+    imageUrl = hit.largeImageURL || hit.webformatURL;
+    attribution = {
+      author: hit.author,
+      authorURL: hit.authorURL,
+      pageURL: hit.pageURL,
+      license: hit.license,
+      licenseURL: hit.licenseURL,
+    };
+  }
+
+  const { filename, duplicates } = await assignImage({
+    city: location.city,
+    country: location.country,
+    source: provider.id,
+    imageId,
+    imageUrl,
+    role,
+    attribution,
+    crop,
+  });
+  const manifest = await writeManifest();
+  print({
+    city: location.city,
+    country: location.country,
+    role,
+    filename,
+    duplicates,
+    manifestHash: manifest.hash,
+  });
+}
+
+/** Lists a location's aliases, or adds or removes one. */
+async function alias(args: string[], values: Values) {
+  const [city, country] = requireArgs(args, ['city', 'country']);
+  const location = await findLocation(city!, country!);
+  const name = args[2]?.trim();
+  const kind = String(values.kind || 'other');
+  if (!isAliasKind(kind)) {
+    throw new UsageError(
+      `Unknown kind ${kind}; expected ${Object.keys(ALIAS_KINDS).join('|')}`
+    );
+  }
+  let aliases = location.aliases;
+  if (name && values.remove) {
+    aliases = await removeAlias(location.city, location.country, name);
+  } else if (name) {
+    aliases = await addAlias(location.city, location.country, name, kind);
+  } else if (values.remove) {
+    throw new UsageError('Expected the <name> to remove');
+  }
+  print({ city: location.city, country: location.country, aliases });
+}
+
+async function importCsv(args: string[]) {
+  const text = args[0] ? await fs.readFile(args[0], 'utf8') : await readStdin();
+  const result = await importLocationsCsv(text);
+  const manifest = await writeManifest();
+  print({ ...result, manifestHash: manifest.hash });
+}
+
+async function exportCsv(values: Values) {
+  const csv = await exportLocationsCsv();
+  if (typeof values.out !== 'string') {
+    process.stdout.write(csv);
+    return;
+  }
+  await fs.writeFile(values.out, csv, 'utf8');
+  print({ path: values.out, bytes: Buffer.byteLength(csv) });
+}
+
+async function importGeoNames(args: string[], values: Values) {
+  const [file] = requireArgs(args, ['file']);
+  const regions =
+    typeof values.admin1 === 'string'
+      ? parseAdmin1Codes(await fs.readFile(values.admin1, 'utf8'))
+      : undefined;
+  const places = parseGeoNames(await fs.readFile(file!, 'utf8'), {
+    regions,
+    minPopulation: optionalNumber(values['min-population']),
+    countryCodes:
+      typeof values.country === 'string'
+        ? values.country.split(',').map((c) => c.trim())
+        : undefined,
+  });
+  const dryRun = Boolean(values['dry-run']);
+  const result = await mergeGeoPlaces(places, {
+    type: typeof values.type === 'string' ? values.type : undefined,
+    dryRun,
+  });
+  const manifest =
+    !dryRun && result.updated + result.added > 0
+      ? await writeManifest()
+      : undefined;
+  print({
+    dryRun,
+    places: places.length,
+    ...result,
+    manifestHash: manifest?.hash,
+  });
+}
+
+async function shareCards(values: Values) {
+  const formats =
+    typeof values.format === 'string'
+      ? values.format.split(',').map((f) => f.trim())
+      : undefined;
+  const unknown = formats?.find((f) => !isCardFormat(f));
+  if (unknown !== undefined) {
+    throw new UsageError(
+      `Unknown format ${unknown}; expected ${Object.keys(CARD_FORMATS).join('|')}`
+    );
+  }
+  const result = await exportShareCards({
+    formats: formats?.filter(isCardFormat),
+    outDir: typeof values.out === 'string' ? values.out : undefined,
+  });
+  print(result);
+  if (result.errors.length > 0) process.exitCode = 1;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      source: { type: 'string' },
+      query: { type: 'string' },
+      page: { type: 'string' },
+      'per-page': { type: 'string' },
+      url: { type: 'string' },
+      role: { type: 'string' },
+      focus: { type: 'string' },
+      kind: { type: 'string' },
+      remove: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      admin1: { type: 'string' },
+      'min-population': { type: 'string' },
+      country: { type: 'string' },
+      type: { type: 'string' },
+      format: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+  switch (command) {
+    case 'status':
+      return status();
+    case 'search':
+      return search(args, values);
+    case 'assign':
+      return assign(args, values);
+    case 'alias':
+      return alias(args, values);
+    case 'import-csv':
+      return importCsv(args);
+    case 'export-csv':
+      return exportCsv(values);
+    case 'import-geonames':
+      return importGeoNames(args, values);
+    case 'share-cards':
+      return shareCards(values);
+    default:
+      throw new UsageError(
+        'Usage: cli <status|search|assign|alias|import-csv|export-csv|import-geonames|share-cards> [...]'
+      );
+  }
+}
+
+main().catch((err) => {
+  process.stderr.write(
+    JSON.stringify({ error: err instanceof Error ? err.message : err }) + '\n'
+  );
+  process.exitCode = err instanceof UsageError ? 2 : 1;
+});
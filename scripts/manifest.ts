@@ -0,0 +1,43 @@
+/**
+ * Writes public/manifest.json for apps that consume the images, after
+ * computing placeholders for downloads that have none stored (slow the
+ * first time on a large library; the app itself never computes them).
+ *
+ *   npm run manifest
+ *
+ * Prints the manifest's version, hash and counts.
+ */
+import { loadEnvConfig } from '@next/env';
+import {
+  backfillPlaceholders,
+  manifestPath,
+  writeManifest,
+} from '../src/app/lib/manifest';
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const placeholdersComputed = await backfillPlaceholders();
+  const manifest = await writeManifest();
+  const withImage = manifest.locations.filter((l) => l.image).length;
+  process.stdout.write(
+    JSON.stringify(
+      {
+        path: manifestPath(),
+        version: manifest.version,
+        hash: manifest.hash,
+        generatedAt: manifest.generatedAt,
+        locations: manifest.locations.length,
+        withImage,
+        placeholdersComputed,
+      },
+      null,
+      2
+    ) + '\n'
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,52 @@
+/**
+ * Reports (and optionally fixes) disagreements between the locations
+ * database and public/downloads.
+ *
+ *   npm run reconcile                          # report only
+ *   npm run reconcile -- --fix normalize       # show planned changes
+ *   npm run reconcile -- --fix normalize --yes # apply them
+ *
+ * Fixes: normalize (trim cells, match on-disk casing), rename (move files to
+ * the <city>-<country>-<id> convention), delete-orphans (remove files no row
+ * references). Output is JSON.
+ */
+import { parseArgs } from 'node:util';
+import { loadEnvConfig } from '@next/env';
+import {
+  applyReconcileFix,
+  RECONCILE_FIXES,
+  ReconcileFix,
+  scanReconciliation,
+} from '../src/app/lib/reconcile';
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      fix: { type: 'string' },
+      yes: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.fix === undefined) {
+    const report = await scanReconciliation();
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+    return;
+  }
+
+  const fix = values.fix as ReconcileFix;
+  if (!RECONCILE_FIXES.includes(fix)) {
+    throw new Error(`--fix must be one of: ${RECONCILE_FIXES.join(', ')}`);
+  }
+  const result = await applyReconcileFix(fix, { confirm: values.yes });
+  process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+  if (!values.yes && result.changes.length > 0) {
+    console.error('Dry run: re-run with --yes to apply these changes.');
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,112 @@
+/**
+ * Offline check of the pick flow: searches the local provider for a few
+ * locations and assigns the top hit, in a scratch project directory so the
+ * real database and downloads are left alone.
+ *
+ *   npm run smoke:local
+ *   npm run smoke:local -- --images path/to/dir --keep
+ *
+ * Uses `fixtures/images` unless --images is given; --keep leaves the scratch
+ * directory in place. Prints one line per location and exits non-zero if
+ * any of them fails.
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { assignImage } from '../src/app/lib/downloads';
+import { downloadsDir, readImageMetadata } from '../src/app/lib/image-metadata';
+import { loadLocations } from '../src/app/lib/locations';
+import { local } from '../src/app/lib/providers/local';
+import { searchLocation } from '../src/app/lib/search';
+
+/** One location per fixture city, plus the expected top hit. */
+const LOCATIONS = [
+  {
+    city: 'Paris',
+    country: 'France',
+    type: 'City',
+    expected: 'paris-eiffel-tower',
+  },
+  { city: 'Rome', country: 'Italy', type: 'City', expected: 'rome-colosseum' },
+  { city: 'Kyoto', country: 'Japan', type: 'City', expected: 'kyoto-temple' },
+];
+
+async function checkLocation(
+  location: (typeof LOCATIONS)[number]
+): Promise<string> {
+  const result = await searchLocation(local, location, {
+    page: 1,
+    perPage: 5,
+  });
+  const hit = result.hits[0];
+  assert.ok(hit, `no local hits for "${result.query}"`);
+  assert.equal(hit.id, location.expected, `top hit for "${result.query}"`);
+
+  const { filename } = await assignImage({
+    city: location.city,
+    country: location.country,
+    source: local.id,
+    imageId: hit.id,
+    imageUrl: hit.largeImageURL,
+    attribution: { author: hit.author, license: hit.license },
+  });
+  await fs.access(path.join(downloadsDir(), filename));
+  const row = (await loadLocations()).find(
+    (l) => l.city === location.city && l.country === location.country
+  );
+  assert.equal(row?.filename, filename, 'location points at the download');
+  const meta = (await readImageMetadata())[filename];
+  assert.equal(meta?.source, local.id, 'metadata records the source');
+  assert.ok(meta.variants?.length, 'variants were generated');
+  return filename;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      images: { type: 'string' },
+      keep: { type: 'boolean', default: false },
+    },
+  });
+
+  // Resolved before leaving the repo, as the paths below follow the cwd
+  process.env.LOCAL_IMAGES_DIR = path.resolve(
+    values.images ?? path.join('fixtures', 'images')
+  );
+  process.env.QUERY_MIN_RESULTS = '1';
+  delete process.env.DATABASE_PATH;
+
+  const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'smoke-local-'));
+  await fs.mkdir(path.join(scratch, 'src', 'app'), { recursive: true });
+  await fs.writeFile(
+    path.join(scratch, 'src', 'app', 'file.csv'),
+    [
+      'city,country,type,filename',
+      ...LOCATIONS.map((l) => `${l.city},${l.country},${l.type},`),
+    ].join('\n') + '\n'
+  );
+  process.chdir(scratch);
+
+  try {
+    for (const location of LOCATIONS) {
+      try {
+        const filename = await checkLocation(location);
+        console.log(`ok    ${location.city}, ${location.country}: ${filename}`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.log(`FAIL  ${location.city}, ${location.country}: ${message}`);
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    if (values.keep) console.log(`Kept ${scratch}`);
+    else await fs.rm(scratch, { recursive: true, force: true });
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -1,178 +1,296 @@
 'use server';
 
-import path from 'node:path';
-import fs from 'node:fs/promises';
+import { revalidatePath } from 'next/cache';
+import {
+  addAlias,
+  isAliasKind,
+  type LocationAlias,
+  removeAlias,
+} from './lib/aliases';
+import { autoPick, AutoPickOptions, AutoPickReport } from './lib/auto-pick';
+import { assignImage, MANUAL_SOURCE } from './lib/downloads';
+import { parseFocalPoint } from './lib/image-processing';
+import {
+  IMAGE_ROLES,
+  type ImageRole,
+  isImageRole,
+  missingRoles,
+} from './lib/image-roles';
+import { locationImages } from './lib/locations';
+import { scheduleManifest } from './lib/manifest';
+import { isSkipReason, skipLocation, unskipLocation } from './lib/skips';
+import { undoPick, type UndoResult } from './lib/undo';
 
 type ActionState = {
   status: 'idle' | 'success' | 'error';
   message?: string;
   filename?: string;
+  /** The role the change applied to. */
+  role?: ImageRole;
+  /** Roles the location still needs after the change. */
+  missingRoles?: ImageRole[];
+  /** The location's aliases after the change. */
+  aliases?: LocationAlias[];
 };
 
-function toSlug(input: string): string {
-  return input
-    .toLowerCase()
-    .normalize('NFKD')
-    .replace(/[^\w\s-]/g, '')
-    .trim()
-    .replace(/[\s_]+/g, '-');
-}
+/**
+ * Assigns an image to a location in a `role` (hero by default): a search
+ * result (`imageId` + `imageUrl` from a provider), or a manual import,
+ * which is either an uploaded `file` or an `imageUrl` on any public host
+ * with `source` set to `manual`. `focus` (`x,y`, 0–1) is the focal point
+ * chosen in the crop step.
+ */
+export async function downloadImageAndUpdateCsv(
+  prevState: ActionState,
+  formData: FormData
+): Promise<ActionState> {
+  try {
+    const city = String(formData.get('city') || '').trim();
+    const country = String(formData.get('country') || '').trim();
+    const imageUrl = String(formData.get('imageUrl') || '').trim();
+    const imageIdRaw = String(formData.get('imageId') || '').trim();
+    const file = formData.get('file');
+    const upload =
+      file instanceof File && file.size > 0
+        ? { data: Buffer.from(await file.arrayBuffer()), name: file.name }
+        : undefined;
+    const source = upload
+      ? MANUAL_SOURCE
+      : String(formData.get('source') || 'unknown').trim();
+    const role = String(formData.get('role') || 'hero').trim();
+    const focus = String(formData.get('focus') || '').trim();
+    const crop = focus ? parseFocalPoint(focus) : undefined;
+    const optional = (key: string) =>
+      String(formData.get(key) || '').trim() || undefined;
 
-async function ensureDir(dirPath: string): Promise<void> {
-  await fs.mkdir(dirPath, { recursive: true });
-}
+    const manual = source === MANUAL_SOURCE;
+    if (
+      !city ||
+      !country ||
+      (!upload && !imageUrl) ||
+      (!manual && !imageIdRaw)
+    ) {
+      return { status: 'error', message: 'Missing required fields' };
+    }
+    if (!isImageRole(role)) {
+      return { status: 'error', message: `Unknown role: ${role}` };
+    }
+    if (focus && !crop) {
+      return { status: 'error', message: `Invalid focal point: ${focus}` };
+    }
 
-function getFileExtensionFromUrl(url: string): string {
-  try {
-    const pathname = new URL(url).pathname;
-    const lastSegment = pathname.split('/').pop() || '';
-    const clean = lastSegment.split('?')[0];
-    const parts = clean.split('.');
-    if (parts.length > 1) return parts.pop()!.toLowerCase();
-    return 'jpg';
-  } catch {
-    return 'jpg';
+    const { filename, duplicates } = await assignImage({
+      city,
+      country,
+      source,
+      imageId: imageIdRaw,
+      imageUrl: upload ? '' : imageUrl,
+      upload,
+      role,
+      crop,
+      attribution: {
+        author: optional('author'),
+        authorURL: optional('authorURL'),
+        pageURL: optional('pageURL'),
+        license: optional('license'),
+        licenseURL: optional('licenseURL'),
+      },
+    });
+
+    scheduleManifest();
+    const label = IMAGE_ROLES[role].toLowerCase();
+    const saved = `Downloaded and saved as the ${label}`;
+    return {
+      status: 'success',
+      filename,
+      role,
+      missingRoles: missingRoles(await locationImages(city, country)),
+      message:
+        duplicates.length > 0
+          ? `${saved} (looks similar to ${duplicates
+              .map((d) => d.filename)
+              .join(', ')})`
+          : saved,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { status: 'error', message };
   }
 }
 
-async function downloadImageToPublic(
-  imageUrl: string,
-  baseName: string
-): Promise<string> {
-  const ext = getFileExtensionFromUrl(imageUrl);
-  const filename = `${baseName}.${ext}`;
-  const downloadsDir = path.join(process.cwd(), 'public', 'downloads');
-  await ensureDir(downloadsDir);
+/**
+ * A client-supplied number as an integer clamped to `min`–`max`, or
+ * undefined (the default) when it isn't a number at all.
+ */
+function clampedInteger(
+  value: unknown,
+  min: number,
+  max: number
+): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return Math.min(Math.max(Math.trunc(value), min), max);
+}
 
-  const res = await fetch(imageUrl);
-  if (!res.ok) {
-    throw new Error(
-      `Failed to download image: ${res.status} ${res.statusText}`
-    );
-  }
-  const arrayBuffer = await res.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
-  const filePath = path.join(downloadsDir, filename);
-  await fs.writeFile(filePath, buffer);
-  return filename;
+/**
+ * Runs auto-pick from the client. Options are checked here, as anything
+ * can arrive: a NaN concurrency would otherwise start no workers and report
+ * an empty run as a success.
+ */
+export async function autoPickImages(
+  options: AutoPickOptions
+): Promise<AutoPickReport> {
+  const report = await autoPick({
+    dryRun: options.dryRun === true,
+    concurrency: clampedInteger(options.concurrency, 1, 8),
+    limit: clampedInteger(options.limit, 0, 10000),
+    sources: Array.isArray(options.sources)
+      ? options.sources.filter((s) => typeof s === 'string')
+      : undefined,
+    minWidth: clampedInteger(options.minWidth, 0, 10000),
+    minHeight: clampedInteger(options.minHeight, 0, 10000),
+    perPage: clampedInteger(options.perPage, 1, 50),
+  });
+  if (report.counts.assigned > 0) scheduleManifest();
+  return report;
 }
 
-function parseCsvLine(line: string): string[] {
-  // Simple CSV: no quotes in provided data. Split by comma and trim.
-  return line.split(',').map((v) => v);
+/**
+ * Reverts a location's latest image change from the gallery. It goes
+ * through `undoPick` like the picker's undo, so the replaced file is
+ * archived or deleted rather than left in `public/downloads`.
+ */
+export async function revertLocationImage(
+  prevState: ActionState,
+  formData: FormData
+): Promise<ActionState> {
+  const city = String(formData.get('city') || '').trim();
+  const country = String(formData.get('country') || '').trim();
+  if (!city || !country) {
+    return { status: 'error', message: 'City and country are required' };
+  }
+  try {
+    const result = await undoPick(city, country);
+    if (!result) return { status: 'error', message: 'Nothing to revert' };
+    scheduleManifest();
+    revalidatePath('/gallery');
+    revalidatePath('/');
+    return {
+      status: 'success',
+      filename: result.restored || undefined,
+      role: result.role,
+      message: describeUndo(result, city),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { status: 'error', message };
+  }
 }
 
-function stringifyCsvLine(fields: string[]): string {
-  return fields.join(',');
+function describeUndo(result: UndoResult, city: string): string {
+  const removed = result.archivedTo
+    ? `, ${result.undone} archived`
+    : result.deleted
+      ? `, ${result.undone} deleted`
+      : '';
+  const role = IMAGE_ROLES[result.role].toLowerCase();
+  return result.restored
+    ? `Restored ${result.restored} as the ${role} for ${city}${removed}`
+    : `Cleared the ${role} image for ${city}${removed}`;
 }
 
-async function updateCsvWithFilename(
+/**
+ * Undoes the picker's most recent pick for a location: the role's previous
+ * image comes back (or the gallery image goes) and the downloaded file is
+ * archived or deleted.
+ * Unlike `revertLocationImage` it doesn't revalidate `/`, so the picker's
+ * list of rows stays put while the user steps back to the location.
+ */
+export async function undoLastPick(
   city: string,
-  country: string,
-  filename: string
-): Promise<void> {
-  const csvPath = path.join(process.cwd(), 'src', 'app', 'file.csv');
-  const original = await fs.readFile(csvPath, 'utf8');
-  const lines = original.split(/\r?\n/);
-  if (lines.length === 0) throw new Error('CSV file is empty');
-
-  // Header handling
-  const header = parseCsvLine(lines[0]);
-  const normalizedHeader = header.map((h) => h.trim().toLowerCase());
-  let filenameIndex = normalizedHeader.indexOf('filename');
-  let headerChanged = false;
-  if (filenameIndex === -1) {
-    header.push('filename');
-    filenameIndex = header.length - 1;
-    headerChanged = true;
+  country: string
+): Promise<ActionState> {
+  try {
+    const result = await undoPick(city, country);
+    if (!result) return { status: 'error', message: 'Nothing to undo' };
+    scheduleManifest();
+    return {
+      status: 'success',
+      filename: result.restored || undefined,
+      role: result.role,
+      missingRoles: missingRoles(await locationImages(city, country)),
+      message: describeUndo(result, city),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { status: 'error', message };
   }
+}
 
-  // Update first matching row (preferring one without filename yet)
-  let updated = false;
-  let updatedIndex: number | null = null;
-  for (let i = 1; i < lines.length; i++) {
-    const raw = lines[i];
-    if (!raw || raw.trim() === '') continue;
-    const fields = parseCsvLine(raw);
-    // Pad fields to header length
-    while (fields.length < header.length) fields.push('');
-
-    const [rowCity, rowCountry] = [fields[0].trim(), fields[1].trim()];
-    if (rowCity === city && rowCountry === country) {
-      // Prefer updating a row without filename, else overwrite first match
-      if (
-        !updated &&
-        (!fields[filenameIndex] || fields[filenameIndex].trim() === '')
-      ) {
-        fields[filenameIndex] = filename;
-        lines[i] = stringifyCsvLine(fields);
-        updated = true;
-        updatedIndex = i;
-        break;
-      }
-      if (updatedIndex === null) {
-        updatedIndex = i;
-      }
-    }
+/** Takes a location out of the picker's queue until it is restored. */
+export async function skipLocationForLater(
+  city: string,
+  country: string,
+  reason: string,
+  note?: string
+): Promise<ActionState> {
+  if (!city || !country || !isSkipReason(reason)) {
+    return { status: 'error', message: 'Invalid skip' };
   }
-
-  if (!updated) {
-    // If we saw a matching row earlier, overwrite its filename
-    if (updatedIndex !== null) {
-      const fields = parseCsvLine(lines[updatedIndex]);
-      while (fields.length < header.length) fields.push('');
-      fields[filenameIndex] = filename;
-      lines[updatedIndex] = stringifyCsvLine(fields);
-    } else {
-      // No existing row matched; append a new line with filename
-      const newRow: string[] = [];
-      newRow[0] = city;
-      newRow[1] = country;
-      newRow[2] = '';
-      // pad
-      while (newRow.length < header.length) newRow.push('');
-      newRow[filenameIndex] = filename;
-      lines.push(stringifyCsvLine(newRow));
-    }
+  try {
+    await skipLocation(city, country, reason, note?.trim());
+    return { status: 'success', message: `Skipped ${city}` };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { status: 'error', message };
   }
-
-  // Write back header (possibly extended) and lines
-  lines[0] = stringifyCsvLine(header);
-  const updatedCsv = lines.join('\n');
-  await fs.writeFile(csvPath, updatedCsv, 'utf8');
 }
 
-export async function downloadImageAndUpdateCsv(
-  prevState: ActionState,
+/** Puts a skipped location back in the picker's queue. */
+export async function restoreSkippedLocation(
   formData: FormData
+): Promise<void> {
+  const city = String(formData.get('city') || '').trim();
+  const country = String(formData.get('country') || '').trim();
+  if (!city || !country) return;
+  await unskipLocation(city, country);
+  revalidatePath('/skipped');
+  revalidatePath('/');
+}
+
+/** Adds a name searches can fall back to, e.g. the local-language one. */
+export async function addLocationAlias(
+  city: string,
+  country: string,
+  name: string,
+  kind: string
 ): Promise<ActionState> {
+  if (!city || !country || !isAliasKind(kind)) {
+    return { status: 'error', message: 'Invalid alias' };
+  }
   try {
-    const city = String(formData.get('city') || '').trim();
-    const country = String(formData.get('country') || '').trim();
-    const imageUrl = String(formData.get('imageUrl') || '').trim();
-    const imageIdRaw = String(formData.get('imageId') || '').trim();
-
-    if (!city || !country || !imageUrl || !imageIdRaw) {
-      return { status: 'error', message: 'Missing required fields' };
-    }
-
-    // Allow string IDs (e.g., Unsplash) and numbers (Pixabay)
-    const safeId = imageIdRaw.replace(/[^a-zA-Z0-9_-]/g, '');
-    if (!safeId) {
-      return { status: 'error', message: 'Invalid image id' };
-    }
-
-    const baseName = `${toSlug(city)}-${toSlug(country)}-${safeId}`;
-    const filename = await downloadImageToPublic(imageUrl, baseName);
-    await updateCsvWithFilename(city, country, filename);
-
+    const aliases = await addAlias(city, country, name, kind);
     return {
       status: 'success',
-      filename,
-      message: 'Downloaded and CSV updated',
+      aliases,
+      message: `Added ${name.trim()} as an alias of ${city}`,
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Unknown error';
     return { status: 'error', message };
   }
 }
+
+export async function removeLocationAlias(
+  city: string,
+  country: string,
+  name: string
+): Promise<ActionState> {
+  if (!city || !country) return { status: 'error', message: 'Invalid alias' };
+  try {
+    const aliases = await removeAlias(city, country, name);
+    return { status: 'success', aliases, message: `Removed alias ${name}` };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { status: 'error', message };
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadLocations } from "../../lib/locations";
+import {
+  duplicateClusters,
+  duplicateThreshold,
+  refreshHashIndex,
+} from "../../lib/perceptual-hash";
+
+export const dynamic = "force-dynamic";
+
+type ClusterFile = {
+  filename: string;
+  url: string;
+  locations: { city: string; country: string }[];
+};
+
+/**
+ * Lists groups of visually near-identical downloads, plus single files that
+ * more than one CSV row points at. `?threshold=` overrides the Hamming
+ * distance used for matching.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const requested = Number(searchParams.get("threshold"));
+    const threshold =
+      searchParams.has("threshold") && Number.isFinite(requested)
+        ? Math.max(0, Math.min(requested, 64))
+        : duplicateThreshold();
+
+    const [index, locations] = await Promise.all([
+      refreshHashIndex(),
+      loadLocations(),
+    ]);
+
+    const rowsByFile = new Map<string, ClusterFile["locations"]>();
+    for (const row of locations) {
+      // A file can be both the hero and in the gallery of one location
+      for (const filename of new Set(row.images.map((i) => i.filename))) {
+        const rows = rowsByFile.get(filename) ?? [];
+        rows.push({ city: row.city, country: row.country });
+        rowsByFile.set(filename, rows);
+      }
+    }
+    const describe = (filename: string): ClusterFile => ({
+      filename,
+      url: `/downloads/${filename}`,
+      locations: rowsByFile.get(filename) ?? [],
+    });
+
+    const clusters = duplicateClusters(index, threshold).map((files) =>
+      files.map(describe)
+    );
+    const sharedFiles = Array.from(rowsByFile.entries())
+      .filter(([, rows]) => rows.length > 1)
+      .map(([filename]) => describe(filename));
+
+    return NextResponse.json({
+      threshold,
+      indexed: Object.keys(index).length,
+      clusters,
+      sharedFiles,
+    });
+  } catch {
+    return NextResponse.json({ error: "Unexpected error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LOCAL_IMAGE_ROUTE,
+  resolveLocalImagePath,
+} from "../../../lib/providers/local";
+
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+};
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const filePath = resolveLocalImagePath(
+    LOCAL_IMAGE_ROUTE + encodeURIComponent(name)
+  );
+  if (!filePath) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  try {
+    const body = await fs.readFile(filePath);
+    const ext = path.extname(filePath).slice(1).toLowerCase();
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[ext] || "application/octet-stream",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+}
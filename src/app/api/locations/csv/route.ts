@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CsvImportError,
+  exportLocationsCsv,
+  importLocationsCsv,
+} from "../../../lib/locations";
+
+export const dynamic = "force-dynamic";
+
+/** The locations in the original `file.csv` format. */
+export async function GET() {
+  try {
+    const csv = await exportLocationsCsv();
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="file.csv"',
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Unexpected error" }, { status: 500 });
+  }
+}
+
+/**
+ * Replaces every location with the uploaded CSV. Send the file as the raw
+ * body, or as the `file` field of a multipart form.
+ */
+export async function POST(req: NextRequest) {
+  let text: string;
+  try {
+    const contentType = req.headers.get("content-type") || "";
+    if (contentType.startsWith("multipart/form-data")) {
+      const file = (await req.formData()).get("file");
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { error: "Missing file field" },
+          { status: 400 }
+        );
+      }
+      text = await file.text();
+    } else {
+      text = await req.text();
+    }
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request body" },
+      { status: 400 }
+    );
+  }
+  try {
+    return NextResponse.json(await importLocationsCsv(text));
+  } catch (err) {
+    if (err instanceof CsvImportError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Unexpected error" }, { status: 500 });
+  }
+}
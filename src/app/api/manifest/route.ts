@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { writeManifest } from "../../lib/manifest";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The image manifest for consuming apps, rebuilt if anything changed since
+ * it was last written. The content hash doubles as the ETag.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const manifest = await writeManifest();
+    const etag = `"${manifest.hash}"`;
+    const headers = { ETag: etag, "Cache-Control": "no-cache" };
+    if (req.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return NextResponse.json(manifest, { headers });
+  } catch {
+    return NextResponse.json({ error: "Unexpected error" }, { status: 500 });
+  }
+}
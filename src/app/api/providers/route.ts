@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { describeProvider, listProviders } from "../../lib/providers";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json({
+    providers: listProviders().map(describeProvider),
+  });
+}
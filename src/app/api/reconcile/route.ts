@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  applyReconcileFix,
+  RECONCILE_FIXES,
+  ReconcileFix,
+  scanReconciliation,
+} from "../../lib/reconcile";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await scanReconciliation());
+  } catch {
+    return NextResponse.json({ error: "Unexpected error" }, { status: 500 });
+  }
+}
+
+/**
+ * Body: `{ "fix": "normalize" | "rename" | "delete-orphans", "confirm"?: true }`.
+ * Without `confirm` nothing is changed and the planned changes are returned.
+ */
+export async function POST(req: NextRequest) {
+  let body: { fix?: string; confirm?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const fix = body?.fix as ReconcileFix;
+  if (!RECONCILE_FIXES.includes(fix)) {
+    return NextResponse.json(
+      { error: `fix must be one of: ${RECONCILE_FIXES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  try {
+    const result = await applyReconcileFix(fix, {
+      confirm: body.confirm === true,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
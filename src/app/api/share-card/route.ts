@@ -0,0 +1,53 @@
+import fs from "node:fs";
+import path from "node:path";
+import { NextRequest, NextResponse } from "next/server";
+import { downloadsDir } from "../../lib/image-metadata";
+import { loadLocations } from "../../lib/locations";
+import { isCardFormat, renderShareCard } from "../../lib/share-cards";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * `?city=&country=&format=og|square|story` renders the location's share
+ * card as PNG. `image` picks another of its images than the hero.
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const city = searchParams.get("city")?.trim() || "";
+  const country = searchParams.get("country")?.trim() || "";
+  const format = searchParams.get("format") || "og";
+  if (!isCardFormat(format)) {
+    return NextResponse.json({ error: "Unknown format" }, { status: 400 });
+  }
+
+  const location = (await loadLocations()).find(
+    (l) => l.city === city && l.country === country
+  );
+  const requested = searchParams.get("image");
+  const image = requested
+    ? location?.images.find((i) => i.filename === requested)
+    : location?.images[0];
+  if (!image || !fs.existsSync(path.join(downloadsDir(), image.filename))) {
+    return NextResponse.json(
+      { error: "No image for that location" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const card = await renderShareCard({
+      city,
+      country,
+      format,
+      filename: image.filename,
+      crop: image.crop,
+    });
+    return new NextResponse(new Uint8Array(card), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    // Most likely the brand template: a missing logo or font file
+    const message = err instanceof Error ? err.message : "Unexpected error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
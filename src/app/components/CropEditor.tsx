@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { FocalPoint } from "../lib/image-processing";
+import type { ImageHit } from "../lib/providers/types";
+
+/** An aspect ratio the image will be cropped to (width / height). */
+export type CropTarget = { label: string; ratio: number };
+
+type Props = {
+  hit: ImageHit;
+  /** The first one is shaded around; the others are outlined. */
+  targets: CropTarget[];
+  pending: boolean;
+  onConfirm: (focal: FocalPoint) => void;
+  onCancel: () => void;
+};
+
+const NUDGE = 0.02;
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(Math.max(v, min), max);
+}
+
+/**
+ * The largest box with `ratio` kept as close to centered on the focal point
+ * as the edges allow, as percentages of the image. Same rule as the
+ * server's crop.
+ */
+function cropBox(
+  width: number,
+  height: number,
+  ratio: number,
+  focal: FocalPoint
+) {
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = Math.min(height, cropWidth / ratio);
+  const left = clamp(focal.x * width - cropWidth / 2, 0, width - cropWidth);
+  const top = clamp(focal.y * height - cropHeight / 2, 0, height - cropHeight);
+  return {
+    left: `${(left / width) * 100}%`,
+    top: `${(top / height) * 100}%`,
+    width: `${(cropWidth / width) * 100}%`,
+    height: `${(cropHeight / height) * 100}%`,
+  };
+}
+
+/**
+ * Crop step between picking a hit and saving it: drag on the image (or use
+ * the arrow keys) to move the focal point, and every target crop follows.
+ */
+export default function CropEditor({
+  hit,
+  targets,
+  pending,
+  onConfirm,
+  onCancel,
+}: Props) {
+  const [focal, setFocal] = useState<FocalPoint>({ x: 0.5, y: 0.5 });
+  const [natural, setNatural] = useState<{ w: number; h: number }>();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const src = hit.largeImageURL || hit.webformatURL;
+  // The reported size keeps the boxes right until the preview has loaded
+  const size =
+    natural ??
+    (hit.imageWidth && hit.imageHeight
+      ? { w: hit.imageWidth, h: hit.imageHeight }
+      : undefined);
+
+  function moveTo(e: React.PointerEvent) {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+    setFocal({
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1),
+    });
+  }
+
+  // Registered once; the picker ignores keys while this is open
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  useEffect(() => {
+    keyHandlerRef.current = (e) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const dx =
+        e.key === "ArrowRight" ? NUDGE : e.key === "ArrowLeft" ? -NUDGE : 0;
+      const dy =
+        e.key === "ArrowDown" ? NUDGE : e.key === "ArrowUp" ? -NUDGE : 0;
+      if (dx || dy) {
+        e.preventDefault();
+        setFocal((f) => ({
+          x: clamp(f.x + dx, 0, 1),
+          y: clamp(f.y + dy, 0, 1),
+        }));
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        if (!pending) onConfirm(focal);
+      } else if (e.key === "Escape") {
+        onCancel();
+      }
+    };
+  });
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Crop image"
+      className="fixed inset-0 z-50 flex flex-col bg-black/90 text-white"
+    >
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        <div
+          ref={frameRef}
+          className="relative overflow-hidden cursor-crosshair touch-none select-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            moveTo(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.buttons & 1) moveTo(e);
+          }}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={src}
+            alt={hit.tags}
+            draggable={false}
+            className="block max-w-[calc(100vw-2rem)] max-h-[calc(100vh-10rem)]"
+            onLoad={(e) =>
+              setNatural({
+                w: e.currentTarget.naturalWidth,
+                h: e.currentTarget.naturalHeight,
+              })
+            }
+          />
+          {size &&
+            targets.map((target, i) => (
+              <div
+                key={target.label}
+                className={`absolute pointer-events-none border ${
+                  i === 0
+                    ? "border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                    : "border-dashed border-white/70"
+                }`}
+                style={cropBox(size.w, size.h, target.ratio, focal)}
+              >
+                <span className="absolute left-1 top-1 rounded bg-black/60 px-1 text-xs">
+                  {target.label}
+                </span>
+              </div>
+            ))}
+          <div
+            className="absolute pointer-events-none size-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-black/30"
+            style={{ left: `${focal.x * 100}%`, top: `${focal.y * 100}%` }}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4 p-4 text-sm bg-black/60">
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className="truncate">
+            {hit.tags}
+            {hit.author ? ` · ${hit.author}` : ""}
+          </span>
+          <span className="text-xs text-white/70">
+            Drag to move the focal point (arrow keys nudge it) · Focus{" "}
+            {Math.round(focal.x * 100)}%, {Math.round(focal.y * 100)}%
+          </span>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={() => setFocal({ x: 0.5, y: 0.5 })}
+            className="rounded border border-white/20 px-3 py-2 hover:bg-white/10"
+          >
+            Center
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded border border-white/20 px-3 py-2 hover:bg-white/10"
+            title="Back (Esc)"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(focal)}
+            disabled={pending}
+            className="rounded bg-white text-black px-3 py-2 font-medium hover:bg-white/90 disabled:opacity-50"
+            title="Save with this crop (Enter)"
+          >
+            {pending ? "Saving…" : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,44 @@
 
 import { useEffect, useMemo, useRef, useState, startTransition } from "react";
 import { useActionState } from "react";
-import { downloadImageAndUpdateCsv } from "../actions";
+import {
+  addLocationAlias,
+  downloadImageAndUpdateCsv,
+  removeLocationAlias,
+  skipLocationForLater,
+  undoLastPick,
+} from "../actions";
+import type { LocationAlias } from "../lib/aliases";
+import type { FocalPoint } from "../lib/image-processing";
+import type { ImageRole } from "../lib/image-roles";
+import type { ProviderInfo } from "../lib/providers/types";
+import CropEditor, { type CropTarget } from "./CropEditor";
+import Lightbox from "./Lightbox";
+import ManualImport from "./ManualImport";
+import ShortcutHelp from "./ShortcutHelp";
 
 type LocationRow = {
   city: string;
   country: string;
   type?: string;
   filename?: string;
+  /** Filled in by a GeoNames import. */
+  region?: string;
+  population?: number;
+  /** Roles the row still needs images for, in the order offered. */
+  missingRoles?: ImageRole[];
+  aliases?: LocationAlias[];
 };
 
+/** Identifies a row across renders; also the search's cache key. */
+function rowKey(location: LocationRow): string {
+  return [location.city, location.country, location.type ?? ""].join("|");
+}
+
+type SortOrder = "csv" | "population";
+
+const POPULATION_THRESHOLDS = [0, 10000, 100000, 1000000];
+
 type PixabayHit = {
   id: string;
   tags: string;
@@ -19,30 +48,112 @@ type PixabayHit = {
   largeImageURL: string;
   imageWidth?: number;
   imageHeight?: number;
+  author?: string;
+  authorURL?: string;
+  pageURL?: string;
+  license?: string;
+  licenseURL?: string;
+  /** Provider id; set by the server on every hit. */
+  source?: string;
+  /** Verdict of the server's quality rules on the reported size. */
+  quality?: { accepted: boolean; reasons: string[] };
 };
 
+/** Hit ids are only unique within a provider. */
+function hitKey(hit: PixabayHit): string {
+  return `${hit.source ?? ""}:${hit.id}`;
+}
+
+/** Readable message for a failed `/api/search` call. */
+function searchErrorMessage(
+  status: number,
+  data: { error?: string; retryAfter?: number } | null
+): string {
+  const message = data?.error || "Search failed";
+  if (status !== 429) return message;
+  const wait = data?.retryAfter;
+  const when =
+    wait === undefined
+      ? "later"
+      : wait < 60
+        ? `in ${wait}s`
+        : `in ${Math.ceil(wait / 60)} min`;
+  return `${message}. Try again ${when} or switch source.`;
+}
+
 type Props = {
   locations: LocationRow[];
+  /** Skip reason ids and their labels, in the order offered. */
+  skipReasons: Record<string, string>;
+  /** Image role ids and their labels, in the order offered. */
+  imageRoles: Record<ImageRole, string>;
+  /** Alias kind ids and their labels, in the order offered. */
+  aliasKinds: Record<string, string>;
+  /** Aspect ratios shown in the crop step, the hero's first. */
+  cropTargets: CropTarget[];
 };
 
 type ActionState = {
   status: "idle" | "success" | "error";
   message?: string;
   filename?: string;
+  role?: ImageRole;
+  missingRoles?: ImageRole[];
+  aliases?: LocationAlias[];
 };
 
-export default function ImagePicker({ locations }: Props) {
+export default function ImagePicker({
+  locations,
+  skipReasons,
+  imageRoles,
+  aliasKinds,
+  cropTargets,
+}: Props) {
   const [locationIndex, setLocationIndex] = useState(0);
   const [images, setImages] = useState<PixabayHit[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedImage, setSelectedImage] = useState<PixabayHit | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [pageNum, setPageNum] = useState(1);
   const seenIdsRef = useRef<Set<string>>(new Set());
-  const [source, setSource] = useState<"pixabay" | "unsplash" | "pexels">(
-    "pixabay"
-  );
+  const [source, setSource] = useState("pixabay");
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
   const [startLetter, setStartLetter] = useState<string | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("csv");
+  // `<country>|<region>`, or "" for every region
+  const [region, setRegion] = useState("");
+  const [minPopulation, setMinPopulation] = useState(0);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  // The hit whose focal point is being chosen before it is saved
+  const [cropping, setCropping] = useState<PixabayHit | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [skipping, setSkipping] = useState(false);
+  const [skipNote, setSkipNote] = useState("");
+  const [showManual, setShowManual] = useState(false);
+  // Whether the pending/last pick came from the manual import panel
+  const [importing, setImporting] = useState(false);
+  // Roles still missing per row after this session's picks and undos
+  const [remaining, setRemaining] = useState<Record<string, ImageRole[]>>({});
+  // Aliases per row after this session's additions and removals
+  const [aliasEdits, setAliasEdits] = useState<Record<string, LocationAlias[]>>({});
+  const [addingAlias, setAddingAlias] = useState(false);
+  const [aliasDraft, setAliasDraft] = useState("");
+  const [aliasKind, setAliasKind] = useState(Object.keys(aliasKinds)[0] ?? "");
+  // A role chosen by hand, for the row it was chosen on
+  const [roleChoice, setRoleChoice] = useState<{
+    key: string;
+    role: ImageRole;
+  } | null>(null);
+  // Locations picked in this session, newest last, for Z (undo)
+  const pickedRef = useRef<LocationRow[]>([]);
+  // The pick being saved: its row and the search result (none for imports)
+  const pendingPickRef = useRef<{
+    location: LocationRow;
+    hit: PixabayHit | null;
+  } | null>(null);
 
   const [actionState, formAction, isPending] = useActionState<
     ActionState,
@@ -61,43 +172,122 @@ export default function ImagePicker({ locations }: Props) {
     }
     return set;
   }, [locations]);
+  // Regions only exist once locations have been imported from GeoNames
+  const regions = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const loc of locations) {
+      if (loc.region) byKey.set(`${loc.country}|${loc.region}`, `${loc.region}, ${loc.country}`);
+    }
+    return Array.from(byKey, ([key, label]) => ({ key, label })).sort((a, b) =>
+      a.label.localeCompare(b.label)
+    );
+  }, [locations]);
+  const hasPopulation = useMemo(
+    () => locations.some((l) => l.population !== undefined),
+    [locations]
+  );
   const filteredLocations = useMemo(() => {
-    if (!startLetter) return locations;
-    const letter = startLetter.toUpperCase();
-    return locations.filter((l) =>
-      (l.country || "").trim().toUpperCase().startsWith(letter)
+    const letter = startLetter?.toUpperCase();
+    const filtered = locations.filter(
+      (l) =>
+        (!letter || (l.country || "").trim().toUpperCase().startsWith(letter)) &&
+        (!region || `${l.country}|${l.region}` === region) &&
+        (minPopulation === 0 || (l.population ?? 0) >= minPopulation)
     );
-  }, [locations, startLetter]);
+    if (sortOrder !== "population") return filtered;
+    // Most populous first; places without a population keep their order last
+    return filtered
+      .map((l, i) => ({ l, i }))
+      .sort(
+        (a, b) =>
+          (b.l.population ?? -1) - (a.l.population ?? -1) || a.i - b.i
+      )
+      .map(({ l }) => l);
+  }, [locations, startLetter, region, minPopulation, sortOrder]);
   const selectedLocation = filteredLocations[locationIndex];
   const isDone = !selectedLocation;
 
-  const query = useMemo(() => {
-    if (!selectedLocation) return "";
-    const city = selectedLocation.city ?? "";
-    const country = selectedLocation.country ?? "";
-    return `${country}`.trim();
+  // The server builds the query from city/country/type (falling back to
+  // broader ones) unless the user typed their own.
+  const locationKey = selectedLocation ? rowKey(selectedLocation) : "";
+  const missingRoles = selectedLocation
+    ? (remaining[locationKey] ?? selectedLocation.missingRoles ?? [])
+    : [];
+  const aliases = selectedLocation
+    ? (aliasEdits[locationKey] ?? selectedLocation.aliases ?? [])
+    : [];
+  // Fill the first missing role unless another was chosen for this row
+  const role =
+    roleChoice?.key === locationKey
+      ? roleChoice.role
+      : (missingRoles[0] ?? "hero");
+  const [queryOverride, setQueryOverride] = useState<string | null>(null);
+  const [activeQuery, setActiveQuery] = useState("");
+  const [queryDraft, setQueryDraft] = useState("");
+  const activeQueryRef = useRef("");
 
-  }, [selectedLocation]);
+  // Load the provider list once; keep the current source if it is offered
+  useEffect(() => {
+    let aborted = false;
+    async function loadProviders() {
+      try {
+        const res = await fetch("/api/providers");
+        if (!res.ok) return;
+        const data = await res.json();
+        const list: ProviderInfo[] = Array.isArray(data?.providers)
+          ? data.providers
+          : [];
+        if (aborted) return;
+        setProviders(list);
+        setSource((current) =>
+          list.some((p) => p.id === current) || list.length === 0
+            ? current
+            : list[0]!.id
+        );
+      } catch {
+        // Keep the default source when the list can't be loaded
+      }
+    }
+    loadProviders();
+    return () => {
+      aborted = true;
+    };
+  }, []);
 
   // When the filter changes, reset the index
   useEffect(() => {
     setLocationIndex(0);
-  }, [startLetter]);
+  }, [startLetter, region, minPopulation, sortOrder]);
+
+  // A typed query only applies to the location it was typed for
+  useEffect(() => {
+    setQueryOverride(null);
+    setAddingAlias(false);
+    setAliasDraft("");
+  }, [locationKey]);
+
+  useEffect(() => {
+    setQueryDraft(activeQuery);
+  }, [activeQuery]);
 
   // Reset pagination and seen IDs when the location (query) changes
   useEffect(() => {
     setImages([]);
     setSelectedImage(null);
+    setPreviewIndex(null);
     setPageNum(1);
     seenIdsRef.current = new Set();
-  }, [query, source]);
+    activeQueryRef.current = queryOverride ?? "";
+    setActiveQuery(queryOverride ?? "");
+  }, [locationKey, queryOverride, source]);
 
   // Load up to 6 unique images not seen before for this location
   useEffect(() => {
     let aborted = false;
     async function loadUnique() {
-      if (!query) return;
+      if (!selectedLocation) return;
       setLoading(true);
+      setSearchError(null);
       try {
         const collected: PixabayHit[] = [];
         let page = pageNum;
@@ -105,21 +295,34 @@ export default function ImagePicker({ locations }: Props) {
         const currentSeen = new Set<string>(seenIdsRef.current);
         while (collected.length < 6 && attempts < 5) {
           const url = new URL("/api/search", window.location.origin);
-          url.searchParams.set("q", query);
+          if (activeQueryRef.current) {
+            url.searchParams.set("q", activeQueryRef.current);
+          } else {
+            url.searchParams.set("city", selectedLocation.city);
+            url.searchParams.set("country", selectedLocation.country);
+            url.searchParams.set("type", selectedLocation.type ?? "");
+          }
           url.searchParams.set("per_page", "18");
           url.searchParams.set("page", String(page));
           url.searchParams.set("source", source);
           const res = await fetch(url.toString());
-          if (!res.ok) throw new Error("Search failed");
-          const data = await res.json();
+          const data = await res.json().catch(() => null);
+          if (!res.ok) throw new Error(searchErrorMessage(res.status, data));
+          if (aborted) return;
+          // Later pages reuse whichever query the server settled on
+          if (typeof data?.query === "string" && data.query) {
+            activeQueryRef.current = data.query;
+            setActiveQuery(data.query);
+          }
           const hits: PixabayHit[] = Array.isArray(data?.hits) ? data.hits : [];
           for (const h of hits) {
+            const key = hitKey(h);
             if (
-              !currentSeen.has(h.id) &&
-              !collected.some((c) => c.id === h.id)
+              !currentSeen.has(key) &&
+              !collected.some((c) => hitKey(c) === key)
             ) {
               collected.push(h);
-              currentSeen.add(h.id);
+              currentSeen.add(key);
               if (collected.length >= 6) break;
             }
           }
@@ -132,7 +335,10 @@ export default function ImagePicker({ locations }: Props) {
           setImages(collected);
         }
       } catch (e) {
-        if (!aborted) setImages([]);
+        if (!aborted) {
+          setImages([]);
+          setSearchError(e instanceof Error ? e.message : "Search failed");
+        }
       } finally {
         if (!aborted) {
           setLoading(false);
@@ -144,42 +350,252 @@ export default function ImagePicker({ locations }: Props) {
     return () => {
       aborted = true;
     };
-  }, [query, pageNum, source]);
+  }, [selectedLocation, queryOverride, pageNum, source]);
 
   function goNext() {
     setSelectedImage(null);
+    setPreviewIndex(null);
+    setSkipping(false);
+    setSkipNote("");
     setLocationIndex((i) => i + 1);
   }
 
+  async function handleSkip(reason: string) {
+    if (!selectedLocation || isPending || undoing) return;
+    const { city, country } = selectedLocation;
+    const result = await skipLocationForLater(city, country, reason, skipNote);
+    setNotice(result.message ?? null);
+    if (result.status === "success") goNext();
+  }
+
+  async function handleAddAlias() {
+    if (!selectedLocation || !aliasDraft.trim()) return;
+    const { city, country } = selectedLocation;
+    const result = await addLocationAlias(city, country, aliasDraft, aliasKind);
+    setNotice(result.message ?? null);
+    if (result.status !== "success") return;
+    setAliasEdits((edits) => ({ ...edits, [locationKey]: result.aliases ?? [] }));
+    setAddingAlias(false);
+    setAliasDraft("");
+    // Show what the new name finds straight away
+    setQueryOverride(aliasDraft.trim());
+  }
+
+  async function handleRemoveAlias(name: string) {
+    if (!selectedLocation) return;
+    const { city, country } = selectedLocation;
+    const result = await removeLocationAlias(city, country, name);
+    setNotice(result.message ?? null);
+    if (result.status === "success") {
+      setAliasEdits((edits) => ({ ...edits, [locationKey]: result.aliases ?? [] }));
+    }
+  }
+
+  function goBack() {
+    setSelectedImage(null);
+    setPreviewIndex(null);
+    setLocationIndex((i) => Math.max(i - 1, 0));
+  }
+
   useEffect(() => {
     if (actionState.status === "success") {
-      goNext();
+      const picked = pendingPickRef.current;
+      const stillMissing = actionState.missingRoles ?? [];
+      if (picked) {
+        pickedRef.current.push(picked.location);
+        pendingPickRef.current = null;
+        setRemaining((r) => ({
+          ...r,
+          [rowKey(picked.location)]: stillMissing,
+        }));
+      }
+      if (stillMissing.length === 0) {
+        goNext();
+        return;
+      }
+      // Stay on the row for its next role, without the image just used
+      const used = picked?.hit;
+      if (used) {
+        setImages((current) =>
+          current.filter((img) => hitKey(img) !== hitKey(used))
+        );
+      }
+      setSelectedImage(null);
+      setPreviewIndex(null);
+      setRoleChoice(null);
+    }
+  }, [actionState]);
+
+  async function handleUndo() {
+    if (undoing || isPending) return;
+    const picked = pickedRef.current;
+    const last = picked[picked.length - 1];
+    if (!last) return;
+    setUndoing(true);
+    try {
+      const result = await undoLastPick(last.city, last.country);
+      setNotice(result.message ?? null);
+      // Keep the pick so a failed undo can be retried
+      if (result.status !== "success") return;
+      picked.splice(picked.lastIndexOf(last), 1);
+      const key = rowKey(last);
+      setRemaining((r) => ({ ...r, [key]: result.missingRoles ?? [] }));
+      if (result.role) setRoleChoice({ key, role: result.role });
+      // Step back to the location (it stays listed for this session)
+      const index = filteredLocations.findIndex(
+        (l) => l.city === last.city && l.country === last.country
+      );
+      if (index >= 0) {
+        setPreviewIndex(null);
+        setLocationIndex(index);
+      }
+    } finally {
+      setUndoing(false);
+    }
+  }
+
+  /** Steps the letter filter through All and the letters that have rows. */
+  function shiftLetter(step: 1 | -1) {
+    const options = [null, ...letters.filter((l) => availableLetters.has(l))];
+    const current = options.indexOf(startLetter);
+    const next = (current + step + options.length) % options.length;
+    setStartLetter(options[next]!);
+  }
+
+  const busy = loading || refreshing || isPending || undoing;
+
+  // Keyboard shortcuts; see ShortcutHelp for the list
+  function handleKeyDown(e: KeyboardEvent) {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const target = e.target as HTMLElement | null;
+    if (target?.closest("input, textarea, select, [contenteditable]")) return;
+    // CropEditor handles its own keys
+    if (cropping) return;
+
+    if (e.key === "Escape") {
+      setShowHelp(false);
+      setPreviewIndex(null);
+      setSkipping(false);
+      return;
+    }
+    if (e.key === "?") {
+      setShowHelp((v) => !v);
+      return;
+    }
+    if (showHelp) return;
+
+    if (skipping) {
+      const reason = Object.keys(skipReasons)[Number(e.key) - 1];
+      if (reason) handleSkip(reason);
+      return;
     }
-  }, [actionState.status]);
 
-  async function handlePick(img: PixabayHit) {
+    if (previewIndex !== null) {
+      const step = e.key === "ArrowRight" ? 1 : e.key === "ArrowLeft" ? -1 : 0;
+      if (step !== 0 && images.length > 0) {
+        e.preventDefault();
+        setPreviewIndex((previewIndex + step + images.length) % images.length);
+      } else if (e.key === "Enter") {
+        e.preventDefault();
+        handlePick(images[previewIndex]!);
+      }
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (/^[1-6]$/.test(key)) {
+      const index = Number(key) - 1;
+      if (images[index]) setPreviewIndex(index);
+    } else if (key === "arrowright" || key === "arrowleft") {
+      e.preventDefault();
+      if (!busy) shiftLetter(key === "arrowright" ? 1 : -1);
+    } else if (key === "r") {
+      handleRefresh();
+    } else if (key === "s") {
+      if (!isPending && selectedLocation) setSkipping(true);
+    } else if (key === "b") {
+      if (!isPending) goBack();
+    } else if (key === "z") {
+      handleUndo();
+    }
+  }
+
+  // The listener is registered once and always calls the latest handler
+  const keyHandlerRef = useRef(handleKeyDown);
+  useEffect(() => {
+    keyHandlerRef.current = handleKeyDown;
+  });
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  /** Opens the crop step for a hit the quality rules allow. */
+  function handlePick(img: PixabayHit) {
     if (!selectedLocation || isPending) return;
+    if (img.quality && !img.quality.accepted) return;
+    setPreviewIndex(null);
+    setCropping(img);
+  }
+
+  function savePick(img: PixabayHit, focal: FocalPoint) {
+    if (!selectedLocation || isPending) return;
+    setCropping(null);
     setSelectedImage(img);
+    setImporting(false);
+    setNotice(null);
+    pendingPickRef.current = { location: selectedLocation, hit: img };
     const fd = new FormData();
     fd.set("city", selectedLocation.city);
     fd.set("country", selectedLocation.country);
     fd.set("imageId", String(img.id));
     fd.set("imageUrl", img.largeImageURL || img.webformatURL);
+    fd.set("source", img.source ?? source);
+    fd.set("role", role);
+    fd.set("focus", `${focal.x.toFixed(4)},${focal.y.toFixed(4)}`);
+    for (const key of [
+      "author",
+      "authorURL",
+      "pageURL",
+      "license",
+      "licenseURL",
+    ] as const) {
+      const value = img[key];
+      if (value) fd.set(key, value);
+    }
     startTransition(() => {
       formAction(fd);
     });
   }
 
+  /** Submits an uploaded file or pasted URL for the current location. */
+  function handleManualImport(fields: FormData) {
+    if (!selectedLocation || isPending) return;
+    setSelectedImage(null);
+    setImporting(true);
+    setNotice(null);
+    pendingPickRef.current = { location: selectedLocation, hit: null };
+    fields.set("city", selectedLocation.city);
+    fields.set("country", selectedLocation.country);
+    fields.set("source", "manual");
+    fields.set("role", role);
+    startTransition(() => {
+      formAction(fields);
+    });
+  }
+
   function handleRefresh() {
     if (loading || refreshing || isPending) return;
+    setPreviewIndex(null);
     setRefreshing(true);
     setPageNum((p) => p + 1);
   }
   if (isDone && locations.length > 0 && filteredLocations.length === 0) {
     return (
       <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-4 py-12 text-center">
-        <h2 className="text-xl font-semibold">No countries match this letter</h2>
-        <p className="text-sm text-foreground/80">Try a different letter or clear the filter.</p>
+        <h2 className="text-xl font-semibold">No locations match these filters</h2>
+        <p className="text-sm text-foreground/80">Try a different letter, region or population, or clear the filters.</p>
       </div>
     );
   }
@@ -189,7 +605,7 @@ export default function ImagePicker({ locations }: Props) {
       <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-4 py-12 text-center">
         <h2 className="text-xl font-semibold">All locations are complete 🎉</h2>
         <p className="text-sm text-foreground/80">
-          No rows without a filename were found.
+          No rows are missing required images.
         </p>
       </div>
     );
@@ -230,6 +646,59 @@ export default function ImagePicker({ locations }: Props) {
           {Math.min(locationIndex + 1, Math.max(filteredLocations.length, 1))} / {filteredLocations.length}
         </div>
       </div>
+      {(regions.length > 0 || hasPopulation) && (
+        <div className="flex items-center gap-4 flex-wrap text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-xs text-foreground/70">Sort</span>
+            <select
+              value={sortOrder}
+              disabled={busy}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+              className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+            >
+              <option value="csv">CSV order</option>
+              <option value="population" disabled={!hasPopulation}>
+                Population (largest first)
+              </option>
+            </select>
+          </label>
+          {regions.length > 0 && (
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-foreground/70">Region</span>
+              <select
+                value={region}
+                disabled={busy}
+                onChange={(e) => setRegion(e.target.value)}
+                className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5 max-w-64"
+              >
+                <option value="">All regions</option>
+                {regions.map((r) => (
+                  <option key={r.key} value={r.key}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {hasPopulation && (
+            <label className="flex items-center gap-2">
+              <span className="text-xs text-foreground/70">Population</span>
+              <select
+                value={minPopulation}
+                disabled={busy}
+                onChange={(e) => setMinPopulation(Number(e.target.value))}
+                className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+              >
+                {POPULATION_THRESHOLDS.map((n) => (
+                  <option key={n} value={n}>
+                    {n === 0 ? "Any" : `≥ ${n.toLocaleString("en-US")}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
       <div className="flex items-end justify-between">
         <div>
           <p className="text-xs uppercase tracking-wide text-foreground/60">
@@ -238,32 +707,204 @@ export default function ImagePicker({ locations }: Props) {
           {selectedLocation ? (
             <h2 className="text-lg font-medium">
               {selectedLocation.city}, {selectedLocation.country}
+              {(selectedLocation.region || selectedLocation.population !== undefined) && (
+                <span className="ml-2 text-sm font-normal text-foreground/60">
+                  {[
+                    selectedLocation.region,
+                    selectedLocation.population !== undefined &&
+                      `pop. ${selectedLocation.population.toLocaleString("en-US")}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              )}
             </h2>
           ) : (
             <h2 className="text-lg font-medium text-foreground/70">
               {startLetter ? `No locations starting with "${startLetter}"` : "Select a location"}
             </h2>
           )}
+          {selectedLocation && (
+            <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-foreground/70">
+              {aliases.length > 0 && <span>Also known as:</span>}
+              {aliases.map((alias) => (
+                <span
+                  key={alias.name}
+                  className="inline-flex items-center rounded border border-black/10 dark:border-white/10"
+                >
+                  <button
+                    type="button"
+                    onClick={() => setQueryOverride(alias.name)}
+                    disabled={busy}
+                    className="px-2 py-0.5 hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-50"
+                    title={`${aliasKinds[alias.kind] ?? alias.kind} (search for it)`}
+                  >
+                    {alias.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAlias(alias.name)}
+                    className="px-1 py-0.5 hover:bg-black/5 dark:hover:bg-white/5"
+                    aria-label={`Remove alias ${alias.name}`}
+                    title="Remove alias"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              {addingAlias ? (
+                <form
+                  className="flex items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddAlias();
+                  }}
+                >
+                  <input
+                    value={aliasDraft}
+                    onChange={(e) => setAliasDraft(e.target.value)}
+                    placeholder="Other name"
+                    autoFocus
+                    className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-0.5"
+                  />
+                  <select
+                    value={aliasKind}
+                    onChange={(e) => setAliasKind(e.target.value)}
+                    className="bg-transparent border border-black/10 dark:border-white/10 rounded px-1 py-0.5"
+                  >
+                    {Object.entries(aliasKinds).map(([id, label]) => (
+                      <option key={id} value={id}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="submit"
+                    disabled={!aliasDraft.trim()}
+                    className="rounded border border-black/10 dark:border-white/10 px-2 py-0.5 hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setAddingAlias(false)}
+                    className="rounded border border-black/10 dark:border-white/10 px-2 py-0.5 hover:bg-black/5 dark:hover:bg-white/5"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setAddingAlias(true)}
+                  className="underline"
+                  title="Another name to search for, e.g. the local or a historical one"
+                >
+                  + Alias
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="text-sm text-foreground/70">
+          {missingRoles.length > 0 &&
+            `Needs: ${missingRoles.map((r) => imageRoles[r]).join(", ")}`}
         </div>
-        <div className="text-sm text-foreground/70" />
       </div>
 
       <div className="flex items-center justify-between">
-        <p className="text-sm text-foreground/80">Query: {query}</p>
+        <form
+          className="flex items-center gap-2 text-sm text-foreground/80"
+          onSubmit={(e) => {
+            e.preventDefault();
+            const next = queryDraft.trim();
+            setQueryOverride(
+              next && next !== activeQuery ? next : queryOverride
+            );
+          }}
+        >
+          <label htmlFor="query">Query:</label>
+          <input
+            id="query"
+            value={queryDraft}
+            onChange={(e) => setQueryDraft(e.target.value)}
+            disabled={loading || refreshing || isPending || !selectedLocation}
+            className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm min-w-64"
+          />
+          <button
+            type="submit"
+            disabled={loading || refreshing || isPending || !selectedLocation}
+            className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-50"
+          >
+            Search
+          </button>
+          {queryOverride !== null && (
+            <button
+              type="button"
+              onClick={() => setQueryOverride(null)}
+              disabled={loading || refreshing || isPending}
+              className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-50"
+              title="Go back to the query built from the location"
+            >
+              Auto
+            </button>
+          )}
+        </form>
         <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setShowManual((v) => !v)}
+            disabled={!selectedLocation}
+            className={`rounded border px-2 py-1 text-xs ${showManual ? "border-foreground bg-black/5 dark:bg-white/10" : "border-black/10 dark:border-white/10 hover:bg-black/5 dark:hover:bg-white/5"}`}
+            title="Upload a file or paste an image URL instead"
+          >
+            Upload / URL
+          </button>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-foreground/70">Use as</label>
+            <select
+              value={role}
+              disabled={isPending || !selectedLocation}
+              onChange={(e) =>
+                setRoleChoice({
+                  key: locationKey,
+                  role: e.target.value as ImageRole,
+                })
+              }
+              className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+              title="What the picked image is used for"
+            >
+              {Object.entries(imageRoles).map(([id, label]) => (
+                <option key={id} value={id}>
+                  {label}
+                  {missingRoles.includes(id as ImageRole) ? " (needed)" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="flex items-center gap-2">
             <label className="text-xs text-foreground/70">Source</label>
             <select
               value={source}
               disabled={loading || refreshing || isPending || !selectedLocation}
-              onChange={(e) =>
-                setSource(e.target.value as "pixabay" | "unsplash" | "pexels")
-              }
+              onChange={(e) => setSource(e.target.value)}
               className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
             >
-              <option value="pixabay">Pixabay</option>
-              <option value="unsplash">Unsplash</option>
-              <option value="pexels">Pexels</option>
+              {providers.length === 0 ? (
+                <option value={source}>{source}</option>
+              ) : (
+                <>
+                  {providers.map((p) => (
+                    <option key={p.id} value={p.id} disabled={!p.configured}>
+                      {p.label}
+                      {p.configured ? "" : " (not configured)"}
+                    </option>
+                  ))}
+                  {providers.filter((p) => p.configured).length > 1 && (
+                    <option value="all">All sources</option>
+                  )}
+                </>
+              )}
             </select>
           </div>
           {loading ? (
@@ -283,33 +924,79 @@ export default function ImagePicker({ locations }: Props) {
         </div>
       </div>
 
+      {showManual && selectedLocation && (
+        <ManualImport
+          key={locationKey}
+          pending={isPending && importing}
+          error={
+            actionState.status === "error" && importing && !isPending
+              ? actionState.message
+              : undefined
+          }
+          onSubmit={handleManualImport}
+          onClose={() => setShowManual(false)}
+        />
+      )}
+
+      {searchError && (
+        <div className="rounded border border-red-600/30 bg-red-600/5 p-3 text-sm text-red-600">
+          {searchError}
+        </div>
+      )}
+
       {selectedLocation ? (
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 gap-4">
-          {images.map((img) => {
-            const isSelected = selectedImage?.id === img.id && isPending;
+          {images.map((img, index) => {
+            const isSelected =
+              !!selectedImage &&
+              hitKey(selectedImage) === hitKey(img) &&
+              isPending;
+            const sourceLabel =
+              providers.find((p) => p.id === img.source)?.label ?? img.source;
+            const rejected = img.quality?.accepted === false;
             return (
               <button
-                key={img.id}
+                key={hitKey(img)}
                 type="button"
-                onClick={() => handlePick(img)}
+                onClick={() => setPreviewIndex(index)}
                 disabled={isPending}
                 className={`group relative rounded-lg overflow-hidden border transition duration-200 ease-out hover:shadow-lg hover:-translate-y-0.5 active:translate-y-0 ${
                   isSelected
                     ? "border-foreground ring-2 ring-foreground/40"
-                    : "border-black/10 dark:border-white/10"
+                    : rejected
+                      ? "border-amber-500/60"
+                      : "border-black/10 dark:border-white/10"
                 }`}
+                title={rejected ? img.quality!.reasons.join("; ") : undefined}
               >
                 <img
                   src={img.webformatURL || img.previewURL}
                   alt={img.tags}
-                  className="w-full h-56 object-cover transition-transform duration-200 ease-out group-hover:scale-[1.03]"
+                  className={`w-full h-56 object-cover transition-transform duration-200 ease-out group-hover:scale-[1.03] ${
+                    rejected ? "opacity-50 grayscale" : ""
+                  }`}
                   loading="lazy"
                 />
+                {rejected && (
+                  <span className="absolute top-10 left-2 right-2 px-2 py-1 rounded bg-amber-500/90 text-black text-[11px] text-left">
+                    ⚠ {img.quality!.reasons.join("; ")}
+                  </span>
+                )}
+                <span className="absolute top-2 right-2 w-6 h-6 rounded-full bg-black/50 text-white text-xs flex items-center justify-center">
+                  {index + 1}
+                </span>
+                {sourceLabel && (
+                  <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/50 text-white text-[10px] uppercase tracking-wide">
+                    {sourceLabel}
+                  </span>
+                )}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/40 via-black/0 to-black/0 opacity-0 group-hover:opacity-100 transition" />
                 <div className="absolute bottom-0 left-0 right-0 p-2 flex items-center justify-between text-white text-xs">
-                  <span className="truncate">{img.tags}</span>
+                  <span className="truncate">
+                    {img.author ? `${img.tags} · ${img.author}` : img.tags}
+                  </span>
                   <span className="px-2 py-0.5 rounded bg-white/20 backdrop-blur-sm">
-                    Select
+                    Preview
                   </span>
                 </div>
               </button>
@@ -322,8 +1009,45 @@ export default function ImagePicker({ locations }: Props) {
         </div>
       )}
 
+      {skipping && selectedLocation && (
+        <form
+          className="flex flex-wrap items-center gap-2 rounded border border-black/10 dark:border-white/10 p-3 text-sm"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSkip("other");
+          }}
+        >
+          <span>Skip {selectedLocation.city} because:</span>
+          {Object.entries(skipReasons).map(([id, label], i) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => handleSkip(id)}
+              className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5"
+            >
+              {i + 1}. {label}
+            </button>
+          ))}
+          <input
+            value={skipNote}
+            onChange={(e) => setSkipNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => setSkipping(false)}
+            className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
       <div className="flex items-center justify-between">
-        {actionState.status === "error" ? (
+        {notice ? (
+          <span className="text-sm">{notice}</span>
+        ) : actionState.status === "error" ? (
           <span className="text-sm text-red-600">{actionState.message}</span>
         ) : actionState.status === "success" && actionState.filename ? (
           <span className="text-sm">
@@ -335,14 +1059,83 @@ export default function ImagePicker({ locations }: Props) {
         <div className="flex gap-2">
           <button
             type="button"
-            onClick={goNext}
+            onClick={() => setShowHelp(true)}
+            className="rounded border border-black/10 dark:border-white/10 px-3 py-2 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+            title="Keyboard shortcuts (?)"
+          >
+            Shortcuts
+          </button>
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={isPending || undoing}
+            className="rounded border border-black/10 dark:border-white/10 px-3 py-2 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+            title="Undo the last pick (Z)"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={goBack}
+            disabled={isPending || locationIndex === 0}
+            className="rounded border border-black/10 dark:border-white/10 px-3 py-2 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+            title="Previous location (B)"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={() => setSkipping(true)}
             disabled={isPending || isDone}
             className="rounded border border-black/10 dark:border-white/10 px-3 py-2 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+            title="Skip this location (S)"
           >
             Skip
           </button>
         </div>
       </div>
+
+      {previewIndex !== null && images[previewIndex] && (
+        <Lightbox
+          hit={images[previewIndex]}
+          sourceLabel={
+            providers.find((p) => p.id === images[previewIndex]!.source)
+              ?.label
+          }
+          position={previewIndex + 1}
+          count={images.length}
+          pending={isPending}
+          blockedReason={
+            images[previewIndex].quality?.accepted === false
+              ? images[previewIndex].quality!.reasons.join("; ")
+              : undefined
+          }
+          error={
+            actionState.status === "error" &&
+            !isPending &&
+            selectedImage === images[previewIndex]
+              ? actionState.message
+              : undefined
+          }
+          onConfirm={() => handlePick(images[previewIndex]!)}
+          onClose={() => setPreviewIndex(null)}
+          onPrev={() =>
+            setPreviewIndex((previewIndex - 1 + images.length) % images.length)
+          }
+          onNext={() => setPreviewIndex((previewIndex + 1) % images.length)}
+        />
+      )}
+      {cropping && (
+        <CropEditor
+          key={hitKey(cropping)}
+          hit={cropping}
+          targets={cropTargets}
+          pending={isPending}
+          onConfirm={(focal) => savePick(cropping, focal)}
+          onCancel={() => setCropping(null)}
+        />
+      )}
+      {showHelp && <ShortcutHelp onClose={() => setShowHelp(false)} />}
     </div>
   );
 }
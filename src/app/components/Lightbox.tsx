@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import type { ImageHit } from "../lib/providers/types";
+
+type Props = {
+  hit: ImageHit;
+  sourceLabel?: string;
+  /** Position of the hit in the grid, for the "2 / 6" counter. */
+  position: number;
+  count: number;
+  pending: boolean;
+  /** Why the last attempt to pick this image failed. */
+  error?: string;
+  /** Set when the quality rules rule this image out. */
+  blockedReason?: string;
+  onConfirm: () => void;
+  onClose: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+};
+
+/** Full-screen preview of a hit's large image before it is picked. */
+export default function Lightbox({
+  hit,
+  sourceLabel,
+  position,
+  count,
+  pending,
+  error,
+  blockedReason,
+  onConfirm,
+  onClose,
+  onPrev,
+  onNext,
+}: Props) {
+  const [loaded, setLoaded] = useState<{ src: string; w: number; h: number }>();
+  const src = hit.largeImageURL || hit.webformatURL;
+  const natural = loaded?.src === src ? loaded : undefined;
+  const original =
+    hit.imageWidth && hit.imageHeight
+      ? `${hit.imageWidth}×${hit.imageHeight}`
+      : "unknown";
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image preview"
+      className="fixed inset-0 z-50 flex flex-col bg-black/90 text-white"
+      onClick={onClose}
+    >
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src}
+          alt={hit.tags}
+          className="max-w-full max-h-full object-contain"
+          onClick={(e) => e.stopPropagation()}
+          onLoad={(e) =>
+            setLoaded({
+              src,
+              w: e.currentTarget.naturalWidth,
+              h: e.currentTarget.naturalHeight,
+            })
+          }
+        />
+      </div>
+      <div
+        className="flex items-center justify-between gap-4 p-4 text-sm bg-black/60"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-col gap-1 min-w-0">
+          <span className="truncate">
+            {hit.tags}
+            {hit.author ? ` · ${hit.author}` : ""}
+          </span>
+          <span className="text-xs text-white/70">
+            {position} / {count}
+            {sourceLabel ? ` · ${sourceLabel}` : ""} · Original {original}
+            {natural ? ` · Preview ${natural.w}×${natural.h}` : ""}
+            {hit.license ? ` · ${hit.license}` : ""}
+          </span>
+          {blockedReason && (
+            <span className="text-xs text-amber-400">
+              Can&apos;t be used: {blockedReason}
+            </span>
+          )}
+          {error && <span className="text-xs text-red-400">{error}</span>}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={onPrev}
+            className="rounded border border-white/20 px-3 py-2 hover:bg-white/10"
+            title="Previous (←)"
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={onNext}
+            className="rounded border border-white/20 px-3 py-2 hover:bg-white/10"
+            title="Next (→)"
+          >
+            →
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded border border-white/20 px-3 py-2 hover:bg-white/10"
+            title="Close (Esc)"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={pending || Boolean(blockedReason)}
+            className="rounded bg-white text-black px-3 py-2 font-medium hover:bg-white/90 disabled:opacity-50"
+            title="Use this image (Enter)"
+          >
+            {pending ? "Saving…" : "Use this image"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Props = {
+  pending: boolean;
+  /** Why the last import failed. */
+  error?: string;
+  /** Receives the file or URL and the attribution the user entered. */
+  onSubmit: (fields: FormData) => void;
+  onClose: () => void;
+};
+
+const ATTRIBUTION_FIELDS = [
+  ["author", "Author"],
+  ["authorURL", "Author URL"],
+  ["pageURL", "Source page"],
+  ["license", "License"],
+  ["licenseURL", "License URL"],
+] as const;
+
+const inputClass =
+  "bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm";
+
+/**
+ * Panel for using an image that didn't come from a search: a file dropped
+ * onto it (or chosen) or an image URL, plus its attribution. The picker
+ * submits it through the same action as a search result.
+ */
+export default function ManualImport({
+  pending,
+  error,
+  onSubmit,
+  onClose,
+}: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [url, setUrl] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const [preview, setPreview] = useState<string>();
+
+  useEffect(() => {
+    if (!file) {
+      setPreview(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setPreview(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  function chooseFile(files: FileList | null) {
+    const next = files?.[0];
+    if (next && next.type.startsWith("image/")) {
+      setFile(next);
+      setUrl("");
+    }
+  }
+
+  return (
+    <form
+      className="flex flex-col gap-3 rounded border border-black/10 dark:border-white/10 p-4 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        const fields = new FormData(e.currentTarget);
+        fields.delete("file");
+        if (file) fields.set("file", file);
+        onSubmit(fields);
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Use your own image</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-foreground/60 hover:underline"
+        >
+          Close
+        </button>
+      </div>
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          chooseFile(e.dataTransfer.files);
+        }}
+        className={`flex items-center gap-4 rounded border border-dashed p-4 cursor-pointer ${
+          dragging
+            ? "border-foreground bg-black/5 dark:bg-white/10"
+            : "border-black/20 dark:border-white/20"
+        }`}
+      >
+        {preview && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={preview}
+            alt=""
+            className="h-16 w-24 object-cover rounded"
+          />
+        )}
+        <span className="text-foreground/70">
+          {file
+            ? `${file.name} (${Math.round(file.size / 1024)} KB)`
+            : "Drop an image here or click to choose a file"}
+        </span>
+        <input
+          type="file"
+          name="file"
+          accept="image/jpeg,image/png,image/gif,image/webp,image/avif"
+          className="sr-only"
+          onChange={(e) => chooseFile(e.target.files)}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-28 text-foreground/70">or image URL</span>
+        <input
+          type="url"
+          name="imageUrl"
+          value={url}
+          onChange={(e) => {
+            setUrl(e.target.value);
+            if (e.target.value) setFile(null);
+          }}
+          placeholder="https://…"
+          className={`${inputClass} flex-1`}
+        />
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {ATTRIBUTION_FIELDS.map(([name, label]) => (
+          <label key={name} className="flex items-center gap-2">
+            <span className="w-28 text-foreground/70">{label}</span>
+            <input name={name} className={`${inputClass} flex-1`} />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-xs text-red-600">{error}</span>
+        <button
+          type="submit"
+          disabled={pending || (!file && !url.trim())}
+          className="rounded bg-foreground text-background px-3 py-2 text-sm disabled:opacity-50"
+        >
+          {pending ? "Saving…" : "Use this image"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useActionState } from "react";
+import { revertLocationImage } from "../actions";
+
+type Props = {
+  city: string;
+  country: string;
+  /** Describes what reverting brings back. */
+  title?: string;
+};
+
+/** The gallery's Revert button, with the action's error shown beside it. */
+export default function RevertButton({ city, country, title }: Props) {
+  const [state, formAction, isPending] = useActionState(revertLocationImage, {
+    status: "idle",
+  });
+
+  return (
+    <form action={formAction} className="flex items-center gap-2">
+      <input type="hidden" name="city" value={city} />
+      <input type="hidden" name="country" value={country} />
+      <button
+        type="submit"
+        disabled={isPending}
+        className="rounded border border-black/10 dark:border-white/10 px-2 py-1 hover:bg-black/5 dark:hover:bg-white/5 disabled:opacity-50"
+        title={title}
+      >
+        {isPending ? "Reverting…" : "Revert"}
+      </button>
+      {state.status === "error" && (
+        <span className="text-xs text-red-600">{state.message}</span>
+      )}
+    </form>
+  );
+}
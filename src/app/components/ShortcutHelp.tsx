@@ -0,0 +1,54 @@
+"use client";
+
+export const SHORTCUTS: [keys: string, action: string][] = [
+  ["1 – 6", "Preview the matching tile"],
+  ["Enter", "Use the previewed image, then save it with the chosen crop"],
+  ["← / →", "Previous / next letter (previous / next image in the preview)"],
+  ["R", "Refresh: show more options"],
+  ["S", "Skip this location, then 1 – 3 for the reason"],
+  ["B", "Back to the previous location"],
+  ["Z", "Undo the last pick"],
+  ["?", "Show or hide this help"],
+  ["Esc", "Close the preview, crop step, skip reasons or this help"],
+];
+
+/** Overlay listing the picker's keyboard shortcuts. */
+export default function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Keyboard shortcuts"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md rounded-lg bg-background text-foreground border border-black/10 dark:border-white/10 p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+        <table className="text-sm">
+          <tbody>
+            {SHORTCUTS.map(([keys, action]) => (
+              <tr key={keys}>
+                <td className="py-1 pr-4 whitespace-nowrap">
+                  <kbd className="rounded border border-black/20 dark:border-white/20 px-1.5 py-0.5 text-xs font-mono">
+                    {keys}
+                  </kbd>
+                </td>
+                <td className="py-1 text-foreground/80">{action}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          onClick={onClose}
+          className="self-end rounded border border-black/10 dark:border-white/10 px-3 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { listCredits } from "../lib/image-metadata";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const credits = await listCredits();
+  return NextResponse.json({
+    generatedAt: new Date().toISOString(),
+    count: credits.length,
+    credits,
+  });
+}
@@ -0,0 +1,78 @@
+import { listCredits } from '../lib/image-metadata';
+
+export const dynamic = 'force-dynamic';
+
+export default async function CreditsPage() {
+  const credits = await listCredits();
+  const missing = credits.filter((c) => c.source === 'unknown').length;
+  return (
+    <div className="font-sans min-h-screen p-8 sm:p-12">
+      <div className="mx-auto flex flex-col gap-6 ">
+        <h1 className="text-2xl font-semibold tracking-tight">Image credits</h1>
+        <p className="text-sm text-foreground/80">
+          {credits.length} images in /downloads, {missing} without recorded
+          attribution. Also available as{' '}
+          <a className="underline" href="/credits.json">
+            credits.json
+          </a>
+          .
+        </p>
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-foreground/60">
+              <th className="py-2 pr-4">File</th>
+              <th className="py-2 pr-4">Location</th>
+              <th className="py-2 pr-4">Author</th>
+              <th className="py-2 pr-4">Source</th>
+              <th className="py-2 pr-4">License</th>
+            </tr>
+          </thead>
+          <tbody>
+            {credits.map((c) => (
+              <tr
+                key={c.filename}
+                className="border-t border-black/10 dark:border-white/10"
+              >
+                <td className="py-2 pr-4">
+                  <a className="underline" href={c.url}>
+                    {c.filename}
+                  </a>
+                </td>
+                <td className="py-2 pr-4">
+                  {c.city ? `${c.city}, ${c.country}` : ''}
+                </td>
+                <td className="py-2 pr-4">
+                  {c.authorURL ? (
+                    <a className="underline" href={c.authorURL}>
+                      {c.author || c.authorURL}
+                    </a>
+                  ) : (
+                    c.author || ''
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  {c.pageURL ? (
+                    <a className="underline" href={c.pageURL}>
+                      {c.source}
+                    </a>
+                  ) : (
+                    c.source
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  {c.licenseURL ? (
+                    <a className="underline" href={c.licenseURL}>
+                      {c.license || c.licenseURL}
+                    </a>
+                  ) : (
+                    c.license || ''
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import Link from 'next/link';
+import RevertButton from '../components/RevertButton';
+import { historyKey, readFilenameHistory } from '../lib/history';
+import { readImageMetadata } from '../lib/image-metadata';
+import { IMAGE_ROLES } from '../lib/image-roles';
+import { loadLocations } from '../lib/locations';
+import { CARD_FORMATS } from '../lib/share-cards';
+
+export const dynamic = 'force-dynamic';
+
+type SearchParams = { country?: string; type?: string; source?: string };
+
+function uniqueSorted(values: (string | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v))).sort(
+    (a, b) => a.localeCompare(b)
+  );
+}
+
+export default async function GalleryPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const filters = await searchParams;
+  const [locations, metadata, history] = await Promise.all([
+    loadLocations(),
+    readImageMetadata(),
+    readFilenameHistory(),
+  ]);
+
+  const completed = locations
+    .filter((l) => l.filename)
+    .map((l) => {
+      const meta = metadata[l.filename!];
+      // Prefer the smallest generated variant as the thumbnail
+      const thumb = meta?.variants
+        ?.filter((v) => v.format !== 'avif')
+        .sort((a, b) => a.width - b.width)[0];
+      const previous = history[historyKey(l.city, l.country)]?.at(-1);
+      const gallery = l.images.filter((i) => i.role === 'gallery').length;
+      const role = previous && IMAGE_ROLES[previous.role].toLowerCase();
+      return {
+        ...l,
+        roles: [
+          l.images.some((i) => i.role === 'thumbnail') && 'thumbnail',
+          gallery > 0 && `${gallery} gallery`,
+        ].filter(Boolean),
+        source: meta?.source ?? 'unknown',
+        thumbnail: thumb
+          ? `/downloads/variants/${thumb.filename}`
+          : `/downloads/${l.filename}`,
+        previous,
+        revertTitle:
+          previous?.role === 'gallery'
+            ? `Remove ${previous.replacedBy} from the gallery`
+            : previous?.filename
+              ? `Restore ${previous.filename} as the ${role}`
+              : previous?.role === 'hero'
+                ? 'Clear the image and mark the row incomplete'
+                : `Clear the ${role}`,
+      };
+    });
+
+  const countries = uniqueSorted(completed.map((c) => c.country));
+  const types = uniqueSorted(completed.map((c) => c.type));
+  const sources = uniqueSorted(completed.map((c) => c.source));
+  const shown = completed.filter(
+    (c) =>
+      (!filters.country || c.country === filters.country) &&
+      (!filters.type || c.type === filters.type) &&
+      (!filters.source || c.source === filters.source)
+  );
+
+  const selectClass =
+    'bg-transparent border border-black/10 dark:border-white/10 rounded px-2 py-1 text-sm';
+
+  return (
+    <div className="font-sans min-h-screen p-8 sm:p-12">
+      <div className="mx-auto flex flex-col gap-6 ">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-2xl font-semibold tracking-tight">Gallery</h1>
+          <nav className="flex gap-4 text-sm">
+            <Link className="underline" href="/">
+              Picker
+            </Link>
+            <Link className="underline" href="/credits">
+              Credits
+            </Link>
+          </nav>
+        </div>
+        <form className="flex flex-wrap items-center gap-3" method="get">
+          <select
+            name="country"
+            defaultValue={filters.country ?? ''}
+            className={selectClass}
+          >
+            <option value="">All countries</option>
+            {countries.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <select
+            name="type"
+            defaultValue={filters.type ?? ''}
+            className={selectClass}
+          >
+            <option value="">All types</option>
+            {types.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+          <select
+            name="source"
+            defaultValue={filters.source ?? ''}
+            className={selectClass}
+          >
+            <option value="">All sources</option>
+            {sources.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="rounded border border-black/10 dark:border-white/10 px-3 py-1 text-sm hover:bg-black/5 dark:hover:bg-white/5"
+          >
+            Filter
+          </button>
+          <span className="text-sm text-foreground/70">
+            {shown.length} of {completed.length} completed locations
+          </span>
+        </form>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {shown.map((row) => (
+            <div
+              key={`${row.city}|${row.country}|${row.filename}`}
+              className="rounded-lg overflow-hidden border border-black/10 dark:border-white/10 flex flex-col"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={row.thumbnail}
+                alt={`${row.city}, ${row.country}`}
+                className="w-full h-40 object-cover"
+                loading="lazy"
+              />
+              <div className="p-2 flex flex-col gap-1 text-xs">
+                <span className="font-medium text-sm">
+                  {row.city}, {row.country}
+                </span>
+                <span className="truncate text-foreground/70">
+                  {row.filename} · {row.source}
+                </span>
+                {row.roles.length > 0 && (
+                  <span className="text-foreground/70">
+                    + {row.roles.join(', ')}
+                  </span>
+                )}
+                <span className="text-foreground/70">
+                  Share card:{' '}
+                  {Object.entries(CARD_FORMATS).map(([format, size], i) => (
+                    <span key={format}>
+                      {i > 0 && ' · '}
+                      <a
+                        className="underline"
+                        href={`/api/share-card?${new URLSearchParams({
+                          city: row.city,
+                          country: row.country,
+                          format,
+                        })}`}
+                        target="_blank"
+                        title={`${size.width}×${size.height} PNG`}
+                      >
+                        {size.label}
+                      </a>
+                    </span>
+                  ))}
+                </span>
+                <div className="flex gap-2 pt-1">
+                  <Link
+                    className="rounded border border-black/10 dark:border-white/10 px-2 py-1 hover:bg-black/5 dark:hover:bg-white/5"
+                    href={`/?${new URLSearchParams({
+                      city: row.city,
+                      country: row.country,
+                    })}`}
+                  >
+                    Replace
+                  </Link>
+                  {row.previous && (
+                    <RevertButton
+                      city={row.city}
+                      country={row.country}
+                      title={row.revertTitle}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
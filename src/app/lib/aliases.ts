@@ -0,0 +1,90 @@
+import { type Db, getDb } from './db';
+import { historyKey } from './history';
+import { tokenize } from './text';
+
+/**
+ * Other names a location goes by, kept in the `location_aliases` table and
+ * keyed by city and country like the skips. When the English name finds
+ * too few images, searches fall back to the aliases in the order they were
+ * added.
+ */
+export type AliasKind = 'local' | 'historical' | 'other';
+
+export const ALIAS_KINDS: Record<AliasKind, string> = {
+  local: 'Local name',
+  historical: 'Historical name',
+  other: 'Other',
+};
+
+export type LocationAlias = { name: string; kind: AliasKind };
+
+type AliasRow = LocationAlias & { city: string; country: string };
+
+export function isAliasKind(value: string): value is AliasKind {
+  return Object.hasOwn(ALIAS_KINDS, value);
+}
+
+/** Every location's aliases, keyed by `historyKey`. */
+export function aliasesByPlace(db: Db): Map<string, LocationAlias[]> {
+  const rows = db
+    .prepare('SELECT * FROM location_aliases ORDER BY rowid')
+    .all() as AliasRow[];
+  const byPlace = new Map<string, LocationAlias[]>();
+  for (const { city, country, name, kind } of rows) {
+    const key = historyKey(city, country);
+    byPlace.set(key, [...(byPlace.get(key) ?? []), { name, kind }]);
+  }
+  return byPlace;
+}
+
+export async function locationAliases(
+  city: string,
+  country: string
+): Promise<LocationAlias[]> {
+  return getDb()
+    .prepare(
+      `SELECT name, kind FROM location_aliases WHERE city = ? AND country = ?
+       ORDER BY rowid`
+    )
+    .all(city, country) as LocationAlias[];
+}
+
+/**
+ * Adds an alias, or changes the kind of one the location already has.
+ * Resolves to the location's aliases.
+ */
+export async function addAlias(
+  city: string,
+  country: string,
+  name: string,
+  kind: AliasKind
+): Promise<LocationAlias[]> {
+  const alias = name.trim();
+  if (!alias) throw new Error('Alias is empty');
+  const words = tokenize(alias).join(' ');
+  if (words && words === tokenize(city).join(' ')) {
+    throw new Error(`${alias} is already the name of ${city}`);
+  }
+  getDb()
+    .prepare(
+      `INSERT INTO location_aliases (city, country, name, kind)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (city, country, name) DO UPDATE SET kind = excluded.kind`
+    )
+    .run(city, country, alias, kind);
+  return locationAliases(city, country);
+}
+
+/** Resolves to the location's remaining aliases. */
+export async function removeAlias(
+  city: string,
+  country: string,
+  name: string
+): Promise<LocationAlias[]> {
+  getDb()
+    .prepare(
+      'DELETE FROM location_aliases WHERE city = ? AND country = ? AND name = ?'
+    )
+    .run(city, country, name);
+  return locationAliases(city, country);
+}
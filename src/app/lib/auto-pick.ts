@@ -0,0 +1,395 @@
+import { assignImage } from './downloads';
+import { historyKey } from './history';
+import { readImageMetadata } from './image-metadata';
+import {
+  type ImageRole,
+  missingRoles,
+  type RoleRequirements,
+  requiredRoles,
+} from './image-roles';
+import { DuplicateImageError } from './perceptual-hash';
+import { assessQuality, QualityError, qualityRules } from './quality';
+import { LocationRow, loadLocations } from './locations';
+import {
+  getProvider,
+  ImageHit,
+  ImageProvider,
+  listProviders,
+} from './providers';
+import { searchLocation } from './search';
+import { listSkips } from './skips';
+import { tokenize } from './text';
+
+export type AutoPickOptions = {
+  /** Score and report without downloading or touching the CSV. */
+  dryRun?: boolean;
+  /** Rows processed at the same time. */
+  concurrency?: number;
+  /** Stop after this many incomplete locations. */
+  limit?: number;
+  /** Provider ids to query; defaults to every configured provider. */
+  sources?: string[];
+  /** Override the quality rules' minimum dimensions. */
+  minWidth?: number;
+  minHeight?: number;
+  /** Results requested from each provider per row. */
+  perPage?: number;
+};
+
+export type ScoredCandidate = {
+  source: string;
+  hit: ImageHit;
+  score: number;
+};
+
+/** Outcome for one image a location is missing. */
+export type AutoPickRowResult = {
+  city: string;
+  country: string;
+  role: ImageRole;
+  status: 'assigned' | 'dry-run' | 'no-candidates' | 'error';
+  filename?: string;
+  candidate?: {
+    source: string;
+    id: string;
+    url: string;
+    score: number;
+    width?: number;
+    height?: number;
+  };
+  /** Candidates considered across all providers. */
+  considered: number;
+  /** `source:id` of candidates rejected as near-duplicates. */
+  skippedDuplicates?: string[];
+  /** `source:id` of candidates whose download failed the quality rules. */
+  skippedQuality?: string[];
+  /** Existing downloads the assigned image resembles (warn policy). */
+  similarTo?: string[];
+  message?: string;
+};
+
+export type AutoPickReport = {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  sources: string[];
+  counts: Record<AutoPickRowResult['status'], number>;
+  results: AutoPickRowResult[];
+};
+
+// Candidates tried per row after the best one turns out to be a duplicate
+// or fails the quality rules once downloaded
+const MAX_CANDIDATE_SKIPS = 3;
+
+const DEFAULTS = {
+  concurrency: 2,
+  perPage: 20,
+};
+
+/**
+ * Scores a hit for a location, or returns null when it must not be used.
+ * Landscape images and tags naming the city/country score higher; larger
+ * images get a small bonus so ties go to the better resolution.
+ */
+export function scoreCandidate(
+  hit: ImageHit,
+  location: LocationRow,
+  options: { minWidth: number; minHeight: number }
+): number | null {
+  const width = hit.imageWidth ?? 0;
+  const height = hit.imageHeight ?? 0;
+  if (!hit.largeImageURL && !hit.webformatURL) return null;
+  // Unknown dimensions are allowed through but never preferred
+  if (width && height) {
+    if (width < options.minWidth || height < options.minHeight) return null;
+  }
+
+  let score = 0;
+  if (width && height) {
+    const ratio = width / height;
+    if (ratio >= 1.2) score += 3;
+    else if (ratio >= 1) score += 1;
+    else score -= 3;
+    score += Math.min(width / 1920, 2);
+  }
+
+  const tagTokens = new Set(tokenize(hit.tags));
+  const cityTokens = tokenize(location.city);
+  const countryTokens = tokenize(location.country);
+  if (cityTokens.some((t) => tagTokens.has(t))) score += 4;
+  if (countryTokens.some((t) => tagTokens.has(t))) score += 2;
+  return score;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  async function run() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]!);
+    }
+  }
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    run
+  );
+  await Promise.all(runners);
+  return results;
+}
+
+/** `source:id` pairs that already back some downloaded image. */
+async function usedImageKeys(): Promise<Set<string>> {
+  const store = await readImageMetadata();
+  return new Set(
+    Object.values(store).map((meta) => `${meta.source}:${meta.sourceId}`)
+  );
+}
+
+/**
+ * The roles a location still needs filled, once per missing image, e.g.
+ * `['thumbnail', 'gallery', 'gallery']`.
+ */
+function missingSlots(
+  location: LocationRow,
+  required: RoleRequirements
+): ImageRole[] {
+  return missingRoles(location.images, required).flatMap((role) => {
+    const have = location.images.filter((i) => i.role === role).length;
+    return Array<ImageRole>((required[role] ?? 0) - have).fill(role);
+  });
+}
+
+function resolveProviders(sources?: string[]): ImageProvider[] {
+  if (!sources || sources.length === 0) {
+    return listProviders().filter((p) => p.isConfigured());
+  }
+  return sources.map((id) => {
+    const provider = getProvider(id);
+    if (!provider) throw new Error(`Unknown source: ${id}`);
+    return provider;
+  });
+}
+
+async function gatherCandidates(
+  location: LocationRow,
+  providers: ImageProvider[],
+  perPage: number
+): Promise<{ candidates: ScoredCandidate[]; errors: string[] }> {
+  const candidates: ScoredCandidate[] = [];
+  const errors: string[] = [];
+  for (const provider of providers) {
+    try {
+      const result = await searchLocation(provider, location, {
+        page: 1,
+        perPage,
+      });
+      for (const hit of result.hits) {
+        candidates.push({ source: provider.id, hit, score: 0 });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      errors.push(`${provider.id}: ${message}`);
+    }
+  }
+  return { candidates, errors };
+}
+
+/**
+ * Walks every location missing an image for one of `REQUIRED_IMAGE_ROLES`
+ * and fills each missing image with the best-scoring one across the
+ * selected providers (unless `dryRun`). Skipped locations are left to the
+ * curator, and images already used for another location or role are never
+ * picked twice.
+ */
+export async function autoPick(
+  options: AutoPickOptions = {}
+): Promise<AutoPickReport> {
+  const startedAt = new Date().toISOString();
+  const dryRun = Boolean(options.dryRun);
+  const concurrency = options.concurrency ?? DEFAULTS.concurrency;
+  const base = qualityRules();
+  const rules = {
+    ...base,
+    minWidth: options.minWidth ?? base.minWidth,
+    minHeight: options.minHeight ?? base.minHeight,
+  };
+  const perPage = options.perPage ?? DEFAULTS.perPage;
+  const providers = resolveProviders(options.sources);
+  const required = requiredRoles();
+
+  const [locations, skips] = await Promise.all([loadLocations(), listSkips()]);
+  const skipped = new Set(skips.map((s) => historyKey(s.city, s.country)));
+  let incomplete = locations.filter(
+    (l) =>
+      missingRoles(l.images, required).length > 0 &&
+      !skipped.has(historyKey(l.city, l.country))
+  );
+  if (options.limit !== undefined)
+    incomplete = incomplete.slice(0, options.limit);
+
+  const used = await usedImageKeys();
+
+  async function fillSlot(
+    location: LocationRow,
+    role: ImageRole,
+    ranked: ScoredCandidate[],
+    considered: number,
+    errors: string[]
+  ): Promise<AutoPickRowResult> {
+    const base = { city: location.city, country: location.country, role };
+    if (ranked.length === 0) {
+      return {
+        ...base,
+        status: 'no-candidates',
+        considered,
+        message: errors.length > 0 ? errors.join('; ') : undefined,
+      };
+    }
+
+    const skippedDuplicates: string[] = [];
+    const skippedQuality: string[] = [];
+    let outcome: AutoPickRowResult | null = null;
+    for (const next of ranked) {
+      if (
+        skippedDuplicates.length + skippedQuality.length >
+        MAX_CANDIDATE_SKIPS
+      )
+        break;
+      const key = `${next.source}:${next.hit.id}`;
+      // Claim it before any await so parallel rows can't pick it too
+      if (used.has(key)) continue;
+      used.add(key);
+
+      const imageUrl = next.hit.largeImageURL || next.hit.webformatURL;
+      const candidate = {
+        source: next.source,
+        id: next.hit.id,
+        url: imageUrl,
+        score: Math.round(next.score * 100) / 100,
+        width: next.hit.imageWidth,
+        height: next.hit.imageHeight,
+      };
+      const row = { ...base, candidate, considered };
+      if (dryRun) {
+        outcome = { ...row, status: 'dry-run' };
+        break;
+      }
+
+      try {
+        const { filename, duplicates } = await assignImage({
+          city: location.city,
+          country: location.country,
+          source: next.source,
+          imageId: next.hit.id,
+          imageUrl,
+          role,
+          quality: rules,
+          attribution: {
+            author: next.hit.author,
+            authorURL: next.hit.authorURL,
+            pageURL: next.hit.pageURL,
+            license: next.hit.license,
+            licenseURL: next.hit.licenseURL,
+          },
+        });
+        outcome = {
+          ...row,
+          status: 'assigned',
+          filename,
+          similarTo:
+            duplicates.length > 0
+              ? duplicates.map((d) => d.filename)
+              : undefined,
+        };
+        break;
+      } catch (err) {
+        if (err instanceof DuplicateImageError) {
+          skippedDuplicates.push(key);
+          continue;
+        }
+        if (err instanceof QualityError) {
+          skippedQuality.push(key);
+          continue;
+        }
+        outcome = {
+          ...row,
+          status: 'error',
+          message: err instanceof Error ? err.message : 'Unknown error',
+        };
+        break;
+      }
+    }
+
+    return {
+      ...(outcome ?? {
+        ...base,
+        status: 'no-candidates',
+        considered,
+        message:
+          'Every candidate tried was a duplicate or failed the quality rules',
+      }),
+      skippedDuplicates:
+        skippedDuplicates.length > 0 ? skippedDuplicates : undefined,
+      skippedQuality: skippedQuality.length > 0 ? skippedQuality : undefined,
+    };
+  }
+
+  const perLocation = await mapWithConcurrency(
+    incomplete,
+    concurrency,
+    async (location): Promise<AutoPickRowResult[]> => {
+      // One search per location serves every role it is missing
+      const { candidates, errors } = await gatherCandidates(
+        location,
+        providers,
+        perPage
+      );
+      const ranked = candidates
+        .filter((c) => !used.has(`${c.source}:${c.hit.id}`))
+        .filter(
+          (c) =>
+            assessQuality(
+              { width: c.hit.imageWidth, height: c.hit.imageHeight },
+              rules
+            ).accepted
+        )
+        .map((c) => ({
+          ...c,
+          score: scoreCandidate(c.hit, location, rules),
+        }))
+        .filter((c): c is ScoredCandidate => c.score !== null)
+        .sort((a, b) => b.score - a.score);
+
+      const results: AutoPickRowResult[] = [];
+      for (const role of missingSlots(location, required)) {
+        results.push(
+          await fillSlot(location, role, ranked, candidates.length, errors)
+        );
+      }
+      return results;
+    }
+  );
+  const results = perLocation.flat();
+
+  const counts: AutoPickReport['counts'] = {
+    assigned: 0,
+    'dry-run': 0,
+    'no-candidates': 0,
+    error: 0,
+  };
+  for (const r of results) counts[r.status] += 1;
+
+  return {
+    dryRun,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    sources: providers.map((p) => p.id),
+    counts,
+    results,
+  };
+}
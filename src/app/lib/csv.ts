@@ -0,0 +1,113 @@
+/**
+ * Minimal RFC 4180 reader/writer for the locations CSV.
+ *
+ * Fields keep their raw text (including stray leading/trailing spaces such as
+ * `" bordeaux-france-9938007.jpg"`) so that a parse/stringify round-trip is
+ * lossless.
+ */
+export type CsvRecord = string[];
+
+export type CsvDocument = {
+  header: CsvRecord;
+  rows: CsvRecord[];
+  /** File started with a UTF-8 byte order mark. */
+  bom: boolean;
+  /** Line terminator detected in the source (first one wins). */
+  eol: '\n' | '\r\n';
+  /** Source ended with a line terminator. */
+  trailingNewline: boolean;
+};
+
+const BOM = '\uFEFF';
+
+export function parseCsv(text: string): CsvDocument {
+  const bom = text.startsWith(BOM);
+  const input = bom ? text.slice(1) : text;
+  const firstLf = input.indexOf('\n');
+  const eol: CsvDocument['eol'] =
+    firstLf > 0 && input[firstLf - 1] === '\r' ? '\r\n' : '\n';
+
+  const records: CsvRecord[] = [];
+  let record: CsvRecord = [];
+  let field = '';
+  let inQuotes = false;
+  let atFieldStart = true;
+  let trailingNewline = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    trailingNewline = false;
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+      continue;
+    }
+    if (ch === ',') {
+      record.push(field);
+      field = '';
+      atFieldStart = true;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      atFieldStart = true;
+      trailingNewline = true;
+      continue;
+    }
+    // Lenient: text after a closing quote is kept verbatim.
+    field += ch;
+    atFieldStart = false;
+  }
+
+  if (inQuotes) throw new Error('Unterminated quoted field in CSV');
+  if (!trailingNewline && (field !== '' || record.length > 0)) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records;
+  return { header, rows, bom, eol, trailingNewline };
+}
+
+function needsQuoting(value: string): boolean {
+  return /[",\r\n]/.test(value);
+}
+
+export function stringifyCsvRecord(record: CsvRecord): string {
+  return record
+    .map((value) =>
+      needsQuoting(value) ? `"${value.replace(/"/g, '""')}"` : value
+    )
+    .join(',');
+}
+
+export function stringifyCsv(doc: CsvDocument): string {
+  const lines = [doc.header, ...doc.rows].map(stringifyCsvRecord);
+  const body = lines.join(doc.eol) + (doc.trailingNewline ? doc.eol : '');
+  return (doc.bom ? BOM : '') + body;
+}
+
+/** Index of a column by case/whitespace-insensitive name, or -1. */
+export function columnIndex(header: CsvRecord, name: string): number {
+  const wanted = name.trim().toLowerCase();
+  return header.findIndex((h) => h.trim().toLowerCase() === wanted);
+}
@@ -0,0 +1,177 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+/**
+ * Embedded SQLite store for locations, their images, aliases and the
+ * filename history. Writes go through transactions, so concurrent picks
+ * (other tabs, the CLI scripts) can't overwrite each other.
+ */
+export type Db = Database.Database;
+
+/** SQL, or a function for the steps SQL alone can't do. */
+type Migration = string | ((db: Db) => void);
+
+type JsonHistoryEntry = {
+  filename: string;
+  replacedBy: string;
+  replacedAt: string;
+};
+
+/**
+ * Brings in the revert history kept in `data/filename-history.json` before
+ * the database existed, keyed by `<city>|<country>`. Its entries are older
+ * than any already in the table, so they go first and pop last.
+ */
+function importJsonHistory(db: Db): void {
+  const filePath = path.join(process.cwd(), 'data', 'filename-history.json');
+  let parsed: Record<string, JsonHistoryEntry[]>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return;
+  }
+  if (!parsed || typeof parsed !== 'object') return;
+  const existing = db
+    .prepare('SELECT * FROM filename_history ORDER BY id')
+    .all();
+  db.exec('DELETE FROM filename_history');
+  const insert = db.prepare(
+    `INSERT INTO filename_history (city, country, role, filename, replaced_by, replaced_at)
+     VALUES (@city, @country, @role, @filename, @replaced_by, @replaced_at)`
+  );
+  for (const [key, entries] of Object.entries(parsed)) {
+    const separator = key.lastIndexOf('|');
+    if (separator < 0 || !Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      insert.run({
+        city: key.slice(0, separator),
+        country: key.slice(separator + 1),
+        role: 'hero',
+        filename: entry.filename ?? '',
+        replaced_by: entry.replacedBy ?? '',
+        replaced_at: entry.replacedAt ?? '',
+      });
+    }
+  }
+  for (const row of existing as Record<string, unknown>[]) {
+    insert.run(row);
+  }
+}
+
+const MIGRATIONS: Migration[] = [
+  `
+  CREATE TABLE csv_format (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    header TEXT NOT NULL,
+    bom INTEGER NOT NULL,
+    eol TEXT NOT NULL,
+    trailing_newline INTEGER NOT NULL
+  );
+  CREATE TABLE locations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    city TEXT,
+    country TEXT,
+    type TEXT,
+    filename TEXT,
+    extra TEXT
+  );
+  CREATE INDEX locations_place ON locations (city, country);
+  CREATE TABLE filename_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    city TEXT NOT NULL,
+    country TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    replaced_by TEXT NOT NULL,
+    replaced_at TEXT NOT NULL
+  );
+  CREATE INDEX filename_history_place ON filename_history (city, country);
+  `,
+  `
+  CREATE TABLE skips (
+    city TEXT NOT NULL,
+    country TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    note TEXT,
+    skipped_at TEXT NOT NULL,
+    PRIMARY KEY (city, country)
+  );
+  `,
+  `
+  ALTER TABLE locations ADD COLUMN country_code TEXT;
+  ALTER TABLE locations ADD COLUMN region TEXT;
+  ALTER TABLE locations ADD COLUMN latitude REAL;
+  ALTER TABLE locations ADD COLUMN longitude REAL;
+  ALTER TABLE locations ADD COLUMN population INTEGER;
+  ALTER TABLE locations ADD COLUMN geoname_id INTEGER;
+  `,
+  `
+  CREATE TABLE location_images (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    city TEXT NOT NULL,
+    country TEXT NOT NULL,
+    role TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    filename TEXT NOT NULL
+  );
+  CREATE INDEX location_images_place ON location_images (city, country);
+  ALTER TABLE filename_history ADD COLUMN role TEXT NOT NULL DEFAULT 'hero';
+  `,
+  `
+  CREATE TABLE location_aliases (
+    city TEXT NOT NULL,
+    country TEXT NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    PRIMARY KEY (city, country, name)
+  );
+  `,
+  `
+  CREATE TABLE image_crops (
+    city TEXT NOT NULL,
+    country TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    focal_x REAL NOT NULL,
+    focal_y REAL NOT NULL,
+    PRIMARY KEY (city, country, filename)
+  );
+  `,
+  importJsonHistory,
+];
+
+const connections = new Map<string, Db>();
+
+export function databasePath(): string {
+  return (
+    process.env.DATABASE_PATH ||
+    path.join(process.cwd(), 'data', 'locations.db')
+  );
+}
+
+function migrate(db: Db): void {
+  // Immediate, so two processes opening a fresh file don't both migrate
+  db.transaction(() => {
+    const version = db.pragma('user_version', { simple: true }) as number;
+    if (version >= MIGRATIONS.length) return;
+    for (const step of MIGRATIONS.slice(version)) {
+      if (typeof step === 'string') db.exec(step);
+      else step(db);
+    }
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  }).immediate();
+}
+
+/** Opens (and migrates) the database once per path and process. */
+export function getDb(): Db {
+  const filePath = databasePath();
+  let db = connections.get(filePath);
+  if (!db) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    migrate(db);
+    connections.set(filePath, db);
+  }
+  return db;
+}
@@ -0,0 +1,230 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { writeFileAtomic } from './files';
+import { downloadImage, readUploadedImage } from './image-download';
+import {
+  downloadsDir,
+  readImageMetadata,
+  recordImageMetadata,
+} from './image-metadata';
+import { type ImageRole, ROLE_LIMITS } from './image-roles';
+import {
+  type FocalPoint,
+  type ProcessedImage,
+  processImage,
+  processingConfig,
+  removeVariants,
+} from './image-processing';
+import {
+  computeHash,
+  DuplicateImageError,
+  DuplicateMatch,
+  duplicatePolicy,
+  findNearDuplicates,
+  recordHash,
+  refreshHashIndex,
+  removeHash,
+} from './perceptual-hash';
+import { locationImages, setImageCrop, setLocationFilename } from './locations';
+import { assertImageQuality, QualityRules } from './quality';
+import type { ImageHit } from './providers';
+import { placeSlug, uniqueSlug } from './slug';
+
+export type ImageAttribution = Pick<
+  ImageHit,
+  'author' | 'authorURL' | 'pageURL' | 'license' | 'licenseURL'
+>;
+
+/** Source recorded for images uploaded or pasted by the user. */
+export const MANUAL_SOURCE = 'manual';
+
+export type AssignImageInput = {
+  city: string;
+  country: string;
+  /** Provider id, e.g. `pixabay`, or `MANUAL_SOURCE`. */
+  source: string;
+  /** Provider image id; manual imports may leave it empty. */
+  imageId: string;
+  /** Where the image is downloaded from; '' for uploads. */
+  imageUrl: string;
+  /** An uploaded file, used instead of downloading `imageUrl`. */
+  upload?: { data: Buffer; name?: string };
+  /** What the image is for; defaults to the hero. */
+  role?: ImageRole;
+  /** Point to crop around instead of the `IMAGE_CROP` strategy. */
+  crop?: FocalPoint;
+  attribution?: ImageAttribution;
+  /** Rules the download must pass; defaults to the configured ones. */
+  quality?: QualityRules;
+};
+
+export type AssignImageResult = {
+  filename: string;
+  /** Similar existing downloads, when the duplicate policy only warns. */
+  duplicates: DuplicateMatch[];
+};
+
+export async function saveToDownloads(
+  filename: string,
+  data: Buffer
+): Promise<void> {
+  await writeFileAtomic(path.join(downloadsDir(), filename), data);
+}
+
+/**
+ * Base name for a download. Two places can slug alike (`"San José"` and
+ * `"San Jose"`), so a name whose file belongs to another location gets a
+ * numeric suffix instead of overwriting it.
+ */
+async function downloadBaseName(
+  city: string,
+  country: string,
+  stem: string,
+  extension: string
+): Promise<string> {
+  const metadata = await readImageMetadata();
+  return uniqueSlug(`${placeSlug(city, country)}-${stem}`, async (base) => {
+    const filename = `${base}.${extension}`;
+    const exists = await fs
+      .access(path.join(downloadsDir(), filename))
+      .then(() => true)
+      .catch(() => false);
+    const meta = metadata[filename];
+    return exists && !(meta?.city === city && meta.country === country);
+  });
+}
+
+/**
+ * Looks for near-duplicates of an image among existing downloads. Under the
+ * `block` policy a match aborts the pick; under `warn` it is only reported.
+ */
+async function checkDuplicates(
+  hash: string,
+  filename: string,
+  own: string[]
+): Promise<DuplicateMatch[]> {
+  const policy = duplicatePolicy();
+  if (policy === 'off') return [];
+  const index = await refreshHashIndex();
+  // Re-downloading the same file over itself is not a duplicate, and neither
+  // is reusing the location's own image for another role
+  const matches = findNearDuplicates(hash, index, undefined, [
+    filename,
+    ...own,
+  ]);
+  if (matches.length > 0 && policy === 'block') {
+    throw new DuplicateImageError(matches);
+  }
+  return matches;
+}
+
+/**
+ * Downloads an image for a location, generates its variants, sets it as the
+ * location's image for `role` and records its attribution. Images failing
+ * the quality rules are rejected; near-duplicates of existing downloads are
+ * rejected or reported according to `DUPLICATE_POLICY`.
+ *
+ * Thumbnails are saved as `<base-name>-thumbnail.<ext>` with square
+ * variants, so the same picture can also be the hero. A focal point chosen
+ * in the crop step is used for the variants and kept with the location.
+ *
+ * Manual imports (`MANUAL_SOURCE`) may come from any public host or be an
+ * upload. Without a provider id they are named after a hash of their bytes.
+ */
+export async function assignImage({
+  city,
+  country,
+  source,
+  imageId,
+  imageUrl,
+  upload,
+  role = 'hero',
+  crop,
+  attribution,
+  quality,
+}: AssignImageInput): Promise<AssignImageResult> {
+  const manual = source === MANUAL_SOURCE;
+  if (!imageId && !manual) throw new Error('Invalid image id');
+  const current = await locationImages(city, country);
+  if (
+    role === 'gallery' &&
+    current.filter((i) => i.role === 'gallery').length >= ROLE_LIMITS.gallery
+  ) {
+    throw new Error(
+      `${city} already has ${ROLE_LIMITS.gallery} gallery images`
+    );
+  }
+
+  // The extension comes from the bytes, not from whatever the URL claims
+  const { data, extension } = upload
+    ? readUploadedImage(upload.data)
+    : await downloadImage(imageUrl, undefined, { anyHost: manual });
+  const id =
+    imageId || createHash('sha1').update(data).digest('hex').slice(0, 12);
+  // Allow string IDs (e.g., Unsplash) and numbers (Pixabay)
+  const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '');
+  if (!safeId) throw new Error('Invalid image id');
+
+  const baseName = await downloadBaseName(
+    city,
+    country,
+    role === 'thumbnail' ? `${safeId}-thumbnail` : safeId,
+    extension
+  );
+  const filename = `${baseName}.${extension}`;
+  await assertImageQuality(data, quality);
+  const hash = await computeHash(data);
+  const duplicates = await checkDuplicates(
+    hash,
+    filename,
+    current.map((i) => i.filename)
+  );
+
+  // Nothing is left behind when the pick fails before the location points
+  // at it, or the stray file would match later picks as a duplicate. The
+  // same image picked again overwrites its file, which is then kept.
+  const filePath = path.join(downloadsDir(), filename);
+  const isNew = await fs.access(filePath).then(
+    () => false,
+    () => true
+  );
+  const config = { ...processingConfig(), ...(crop && { crop }) };
+  let processed: ProcessedImage;
+  try {
+    processed = await processImage(
+      data,
+      baseName,
+      role === 'thumbnail' ? { ...config, aspectRatio: 1 } : config
+    );
+    await saveToDownloads(filename, data);
+    await recordHash(filename, hash);
+    await setLocationFilename(city, country, filename, role);
+  } catch (err) {
+    if (isNew) {
+      await fs.rm(filePath, { force: true });
+      await removeVariants(filename);
+      await removeHash(filename);
+    }
+    throw err;
+  }
+  await setImageCrop(city, country, filename, crop);
+  await recordImageMetadata({
+    filename,
+    city,
+    country,
+    source,
+    sourceId: imageId || safeId,
+    originalURL: imageUrl,
+    uploadedName: upload?.name,
+    ...attribution,
+    width: processed.sourceWidth,
+    height: processed.sourceHeight,
+    aspectRatio: processed.aspectRatio,
+    variants: processed.variants,
+    dominantColor: processed.dominantColor,
+    blurhash: processed.blurhash,
+    downloadedAt: new Date().toISOString(),
+  });
+  return { filename, duplicates };
+}
@@ -0,0 +1,27 @@
+import { randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Writes to a hidden temp file in the same directory, then renames it into
+ * place, so readers never see a half-written file and a failure leaves the
+ * previous contents (or nothing) behind.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: Buffer | string
+): Promise<void> {
+  const dir = path.dirname(filePath);
+  const temp = path.join(
+    dir,
+    `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`
+  );
+  await fs.mkdir(dir, { recursive: true });
+  try {
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, filePath);
+  } catch (err) {
+    await fs.rm(temp, { force: true });
+    throw err;
+  }
+}
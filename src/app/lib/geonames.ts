@@ -0,0 +1,208 @@
+import type { GeoPlace } from './locations';
+
+/** A GeoNames file or TSV that can't be read as places. */
+export class GeoImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoImportError';
+  }
+}
+
+export type GeoImportOptions = {
+  /**
+   * Region names keyed by `<country code>.<admin1 code>`, as read from
+   * GeoNames' `admin1CodesASCII.txt`. Without them the admin1 code is kept.
+   */
+  regions?: Map<string, string>;
+  /** Skip places smaller than this. */
+  minPopulation?: number;
+  /** Only keep places in these ISO country codes. */
+  countryCodes?: string[];
+};
+
+type Field =
+  | 'geonameId'
+  | 'name'
+  | 'asciiName'
+  | 'alternateNames'
+  | 'featureClass'
+  | 'countryCode'
+  | 'country'
+  | 'region'
+  | 'latitude'
+  | 'longitude'
+  | 'population';
+
+type Columns = Partial<Record<Field, number>>;
+
+// Column positions in the GeoNames "geoname" table
+const GEONAMES_COLUMNS: Columns = {
+  geonameId: 0,
+  name: 1,
+  asciiName: 2,
+  alternateNames: 3,
+  latitude: 4,
+  longitude: 5,
+  featureClass: 6,
+  countryCode: 8,
+  region: 10,
+  population: 14,
+};
+
+const HEADER_ALIASES: Record<Field, string[]> = {
+  geonameId: ['geonameid', 'geoname_id', 'id'],
+  name: ['name', 'city'],
+  asciiName: ['asciiname', 'ascii_name'],
+  alternateNames: ['alternatenames', 'alternate_names', 'aliases'],
+  featureClass: ['feature_class', 'featureclass'],
+  countryCode: ['country_code', 'countrycode', 'iso', 'cc'],
+  country: ['country'],
+  region: ['region', 'admin1', 'admin1_code', 'state', 'province'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon'],
+  population: ['population', 'pop'],
+};
+
+let countryNames: Intl.DisplayNames | undefined;
+
+/** English name for an ISO country code, e.g. `FR` → `France`. */
+export function countryName(code: string): string {
+  countryNames ??= new Intl.DisplayNames(['en'], { type: 'region' });
+  try {
+    return countryNames.of(code.toUpperCase()) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+let countryCodes: Map<string, string> | undefined;
+
+/** ISO code for an English country name, when `countryName` knows it. */
+function countryCodeFor(name: string): string | undefined {
+  if (!countryCodes) {
+    countryCodes = new Map();
+    for (let a = 65; a <= 90; a++) {
+      for (let b = 65; b <= 90; b++) {
+        const code = String.fromCharCode(a, b);
+        const display = countryName(code).toLowerCase();
+        // Keep the first code, e.g. FR rather than FX (Metropolitan France)
+        if (display !== code.toLowerCase() && !countryCodes.has(display)) {
+          countryCodes.set(display, code);
+        }
+      }
+    }
+  }
+  return countryCodes.get(name.trim().toLowerCase());
+}
+
+/** Parses `admin1CodesASCII.txt`: `FR.11<TAB>Île-de-France<TAB>...`. */
+export function parseAdmin1Codes(text: string): Map<string, string> {
+  const regions = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const [code, name] = line.split('\t');
+    if (code && name) regions.set(code.trim().toUpperCase(), name.trim());
+  }
+  return regions;
+}
+
+function headerColumns(fields: string[]): Columns | null {
+  const normalized = fields.map((f) => f.trim().toLowerCase());
+  const columns: Columns = {};
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES)) {
+    const index = normalized.findIndex((f) => aliases.includes(f));
+    if (index !== -1) columns[field as Field] = index;
+  }
+  return columns.name !== undefined ? columns : null;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Reads places from a GeoNames dump (`cities15000.txt`, `allCountries.txt`
+ * and the like: tab-separated, no header, 19 columns) or from a simpler TSV
+ * whose first row names its columns, e.g.
+ *
+ *   name	country_code	region	latitude	longitude	population
+ *
+ * Only populated places (feature class `P`) are taken from GeoNames dumps.
+ */
+export function parseGeoNames(
+  text: string,
+  { regions, minPopulation = 0, countryCodes: only }: GeoImportOptions = {}
+): GeoPlace[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((line, index) => ({ fields: line.split('\t'), number: index + 1 }))
+    .filter(
+      ({ fields }) => fields.join('').trim() && !fields[0]!.startsWith('#')
+    );
+  if (lines.length === 0) return [];
+
+  const header = headerColumns(lines[0]!.fields);
+  const columns = header ?? GEONAMES_COLUMNS;
+  if (!header && lines[0]!.fields.length < 15) {
+    throw new GeoImportError(
+      'Expected a GeoNames dump (19 tab-separated columns) or a header row with at least a name column'
+    );
+  }
+  const wanted = only && new Set(only.map((c) => c.toUpperCase()));
+
+  const places: GeoPlace[] = [];
+  for (const { fields, number } of header ? lines.slice(1) : lines) {
+    const cell = (field: Field) => {
+      const index = columns[field];
+      return index === undefined ? undefined : fields[index]?.trim();
+    };
+    const featureClass = cell('featureClass');
+    if (featureClass && featureClass !== 'P') continue;
+
+    const name = cell('name');
+    const countryCell = cell('country');
+    let countryCode = cell('countryCode')?.toUpperCase();
+    if (!countryCode && countryCell) {
+      countryCode =
+        countryCell.length === 2
+          ? countryCell.toUpperCase()
+          : countryCodeFor(countryCell);
+    }
+    if (!name || !countryCode) {
+      throw new GeoImportError(
+        `Line ${number}: ${name ? 'unknown country' : 'missing name'}`
+      );
+    }
+    if (wanted && !wanted.has(countryCode)) continue;
+    const population = optionalNumber(cell('population'));
+    if ((population ?? 0) < minPopulation) continue;
+
+    const admin1 = cell('region');
+    const asciiName = cell('asciiName');
+    const alternateNames = (cell('alternateNames') ?? '')
+      .split(',')
+      .map((n) => n.trim());
+    places.push({
+      city: name,
+      country:
+        countryCell && countryCell.length !== 2
+          ? countryCell
+          : countryName(countryCode),
+      countryCode,
+      region:
+        (admin1 && regions?.get(`${countryCode}.${admin1.toUpperCase()}`)) ||
+        admin1 ||
+        undefined,
+      latitude: optionalNumber(cell('latitude')),
+      longitude: optionalNumber(cell('longitude')),
+      population,
+      geonameId: optionalNumber(cell('geonameId')),
+      alternateNames: Array.from(
+        new Set([asciiName ?? '', ...alternateNames])
+      ).filter((n) => n && n !== name),
+    });
+  }
+  return places;
+}
@@ -0,0 +1,88 @@
+import { type Db, getDb } from './db';
+import type { ImageRole } from './image-roles';
+
+/**
+ * Per-location stack of filenames that were replaced, newest last, kept in
+ * the `filename_history` table. An empty `filename` means the role had no
+ * image before (always the case for gallery additions).
+ */
+export type HistoryEntry = {
+  role: ImageRole;
+  filename: string;
+  replacedBy: string;
+  replacedAt: string;
+};
+
+export type FilenameHistory = Record<string, HistoryEntry[]>;
+
+type HistoryRow = {
+  id: number;
+  city: string;
+  country: string;
+  role: ImageRole;
+  filename: string;
+  replaced_by: string;
+  replaced_at: string;
+};
+
+function toEntry(row: HistoryRow): HistoryEntry {
+  return {
+    role: row.role,
+    filename: row.filename,
+    replacedBy: row.replaced_by,
+    replacedAt: row.replaced_at,
+  };
+}
+
+export function historyKey(city: string, country: string): string {
+  return `${city}|${country}`;
+}
+
+export async function readFilenameHistory(): Promise<FilenameHistory> {
+  const rows = getDb()
+    .prepare('SELECT * FROM filename_history ORDER BY id')
+    .all() as HistoryRow[];
+  const history: FilenameHistory = {};
+  for (const row of rows) {
+    const key = historyKey(row.city, row.country);
+    (history[key] ??= []).push(toEntry(row));
+  }
+  return history;
+}
+
+/** Call inside the transaction that changes the filename. */
+export function pushFilenameHistory(
+  db: Db,
+  city: string,
+  country: string,
+  entry: HistoryEntry
+): void {
+  db.prepare(
+    `INSERT INTO filename_history (city, country, role, filename, replaced_by, replaced_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    city,
+    country,
+    entry.role,
+    entry.filename,
+    entry.replacedBy,
+    entry.replacedAt
+  );
+}
+
+/** Removes and returns the most recent entry for a location. */
+export function popFilenameHistory(
+  db: Db,
+  city: string,
+  country: string
+): HistoryEntry | undefined {
+  const row = db
+    .prepare(
+      `SELECT * FROM filename_history WHERE city = ? AND country = ?
+       ORDER BY id DESC LIMIT 1`
+    )
+    .get(city, country) as HistoryRow | undefined;
+  if (!row) return undefined;
+  db.prepare('DELETE FROM filename_history WHERE id = ?').run(row.id);
+  return toEntry(row);
+}
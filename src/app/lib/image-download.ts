@@ -0,0 +1,333 @@
+import dns from 'node:dns';
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import type { NextConfig } from 'next';
+import { Agent, fetch, type Response } from 'undici';
+import nextConfig from '../../../next.config';
+import { resolveLocalImagePath } from './providers/local';
+
+/**
+ * Fetches image bytes for a pick. Remote URLs must match one of the
+ * `images.remotePatterns` in `next.config.ts` (checked again on every
+ * redirect), responses are capped in size and time, and the format is taken
+ * from the file's magic bytes rather than the URL or the Content-Type.
+ * URLs pasted by the user may point at any public host instead.
+ */
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif';
+
+export type DownloadedImage = {
+  data: Buffer;
+  format: ImageFormat;
+  /** File extension for the format, without the dot. */
+  extension: string;
+};
+
+export type DownloadLimits = {
+  maxBytes: number;
+  timeoutMs: number;
+};
+
+export type DownloadOptions = {
+  /**
+   * Accept any public http(s) host rather than only the providers'.
+   * Loopback, private and link-local addresses are still refused.
+   */
+  anyHost?: boolean;
+};
+
+export class DownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+type RemotePatterns = NonNullable<
+  NonNullable<NextConfig['images']>['remotePatterns']
+>;
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+const MAX_REDIRECTS = 3;
+
+const PNG_SIGNATURE = Buffer.from('89504e470d0a1a0a', 'hex');
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function downloadLimits(): DownloadLimits {
+  return {
+    maxBytes: positiveNumber(process.env.DOWNLOAD_MAX_BYTES, 20 * 1024 * 1024),
+    timeoutMs: positiveNumber(process.env.DOWNLOAD_TIMEOUT_MS, 20000),
+  };
+}
+
+/** `*` matches within one segment, `**` across any number of them. */
+function globToRegExp(glob: string, separator: string): RegExp {
+  const sep = separator.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const source = glob
+    .split(/(\*\*|\*)/)
+    .map((part) =>
+      part === '**'
+        ? '.*'
+        : part === '*'
+          ? `[^${sep}]*`
+          : part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    )
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function matchesPattern(url: URL, pattern: RemotePatterns[number]): boolean {
+  if (pattern instanceof URL) {
+    return matchesPattern(url, {
+      protocol: pattern.protocol.replace(/:$/, '') as 'http' | 'https',
+      hostname: pattern.hostname,
+      port: pattern.port,
+      pathname: pattern.pathname,
+      search: pattern.search,
+    });
+  }
+  if (pattern.protocol && url.protocol !== `${pattern.protocol}:`) {
+    return false;
+  }
+  if (pattern.port !== undefined && pattern.port !== url.port) return false;
+  if (!globToRegExp(pattern.hostname, '.').test(url.hostname)) return false;
+  if (pattern.search !== undefined && pattern.search !== url.search) {
+    return false;
+  }
+  return globToRegExp(pattern.pathname ?? '**', '/').test(url.pathname);
+}
+
+export function isAllowedImageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return false;
+  }
+  const patterns = nextConfig.images?.remotePatterns ?? [];
+  return patterns.some((p) => matchesPattern(parsed, p));
+}
+
+// IPv4 rules also match IPv4-mapped IPv6 (`::ffff:7f00:1`). The
+// IPv4-compatible (`::7f00:1`), NAT64 and 6to4 ranges embed an IPv4 address
+// too, so they are refused whole.
+const NON_PUBLIC = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [
+  ['::', 96],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * `dns.lookup` that fails unless every address of the host is public. The
+ * connection is made to the address checked here, so a host can't resolve
+ * to a public address for the check and a private one for the fetch.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    if (
+      addresses.length === 0 ||
+      addresses.some((a) => isPrivateAddress(a.address))
+    ) {
+      return callback(
+        new DownloadError(`Image host is not allowed: ${hostname}`),
+        '',
+        0
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+let publicAgent: Agent | undefined;
+
+/** True for http(s) URLs whose host resolves only to public addresses. */
+export async function isPublicImageUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return false;
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = net.isIP(host)
+      ? [{ address: host }]
+      : await dns.promises.lookup(host, { all: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every((a) => !isPrivateAddress(a.address))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** Detects the image format from the first bytes of the file. */
+export function sniffImageFormat(data: Buffer): ImageFormat | null {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return 'png';
+  const ascii = (start: number, end: number) =>
+    data.subarray(start, end).toString('latin1');
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) {
+    return 'avif';
+  }
+  return null;
+}
+
+function toDownloadedImage(data: Buffer): DownloadedImage {
+  const format = sniffImageFormat(data);
+  if (!format) {
+    throw new DownloadError('File is not a JPEG, PNG, GIF, WebP or AVIF image');
+  }
+  return { data, format, extension: EXTENSIONS[format] };
+}
+
+/** Applies the download checks (size and format) to an uploaded file. */
+export function readUploadedImage(
+  data: Buffer,
+  limits: DownloadLimits = downloadLimits()
+): DownloadedImage {
+  if (data.length > limits.maxBytes) {
+    throw new DownloadError(`Image is larger than ${limits.maxBytes} bytes`);
+  }
+  return toDownloadedImage(data);
+}
+
+async function readCapped(res: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new DownloadError(`Image is larger than ${maxBytes} bytes`);
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new DownloadError(`Image is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchRemote(
+  imageUrl: string,
+  { maxBytes, timeoutMs }: DownloadLimits,
+  { anyHost = false }: DownloadOptions
+): Promise<Buffer> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = imageUrl;
+  try {
+    for (let hops = 0; ; hops++) {
+      const allowed = anyHost
+        ? await isPublicImageUrl(url)
+        : isAllowedImageUrl(url);
+      if (!allowed) {
+        throw new DownloadError(`Image host is not allowed: ${url}`);
+      }
+      // Redirects are followed by hand so each hop is checked
+      const res = await fetch(url, {
+        redirect: 'manual',
+        signal,
+        dispatcher: anyHost
+          ? (publicAgent ??= new Agent({ connect: { lookup: publicLookup } }))
+          : undefined,
+      });
+      const location = res.headers.get('location');
+      if (res.status >= 300 && res.status < 400 && location) {
+        if (hops >= MAX_REDIRECTS)
+          throw new DownloadError('Too many redirects');
+        url = new URL(location, url).toString();
+        continue;
+      }
+      if (!res.ok) {
+        throw new DownloadError(
+          `Failed to download image: ${res.status} ${res.statusText}`
+        );
+      }
+      const type = res.headers.get('content-type') || '';
+      if (type && !/^(image\/|application\/octet-stream)/i.test(type)) {
+        throw new DownloadError(`Expected an image but got ${type}`);
+      }
+      return await readCapped(res, maxBytes);
+    }
+  } catch (err) {
+    if ((err as Error).name === 'TimeoutError') {
+      throw new DownloadError(`Download timed out after ${timeoutMs}ms`);
+    }
+    // Refused by publicLookup while connecting
+    const cause = (err as Error).cause;
+    if (cause instanceof DownloadError) throw cause;
+    throw err;
+  }
+}
+
+export async function downloadImage(
+  imageUrl: string,
+  limits: DownloadLimits = downloadLimits(),
+  options: DownloadOptions = {}
+): Promise<DownloadedImage> {
+  // Images from the local provider are read straight from disk so the
+  // flow works without network access.
+  const localPath = resolveLocalImagePath(imageUrl);
+  if (localPath) {
+    const { size } = await fs.stat(localPath);
+    if (size > limits.maxBytes) {
+      throw new DownloadError(`Image is larger than ${limits.maxBytes} bytes`);
+    }
+    return toDownloadedImage(await fs.readFile(localPath));
+  }
+  return toDownloadedImage(await fetchRemote(imageUrl, limits, options));
+}
@@ -0,0 +1,138 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { writeFileAtomic } from './files';
+import { type ImageVariant, renamedVariant } from './image-processing';
+import { createLock } from './lock';
+
+const withStoreLock = createLock();
+
+/**
+ * Attribution and provenance for a downloaded image, kept in a sidecar
+ * store keyed by filename so the CSV format stays unchanged.
+ */
+export type ImageMetadata = {
+  filename: string;
+  city: string;
+  country: string;
+  /** Provider id, e.g. `unsplash`. */
+  source: string;
+  /** Image id at the provider. */
+  sourceId: string;
+  originalURL: string;
+  /** Name of the file the user uploaded, for manual imports. */
+  uploadedName?: string;
+  author?: string;
+  authorURL?: string;
+  pageURL?: string;
+  license?: string;
+  licenseURL?: string;
+  /** Original dimensions after orientation is normalized. */
+  width?: number;
+  height?: number;
+  /** Aspect ratio the variants were cropped to, e.g. `16:9`. */
+  aspectRatio?: string;
+  /** Resized copies under `/downloads/variants/`. */
+  variants?: ImageVariant[];
+  /** Placeholder while loading; see `imagePlaceholder`. */
+  dominantColor?: string;
+  blurhash?: string;
+  downloadedAt: string;
+};
+
+export type ImageMetadataStore = Record<string, ImageMetadata>;
+
+/** One line of the credits listing; images without metadata are `unknown`. */
+export type CreditEntry = Partial<ImageMetadata> & {
+  filename: string;
+  url: string;
+  source: string;
+};
+
+export function metadataPath(): string {
+  return path.join(process.cwd(), 'data', 'image-metadata.json');
+}
+
+export function downloadsDir(): string {
+  return path.join(process.cwd(), 'public', 'downloads');
+}
+
+export async function readImageMetadata(): Promise<ImageMetadataStore> {
+  try {
+    const text = await fs.readFile(metadataPath(), 'utf8');
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+async function writeImageMetadata(store: ImageMetadataStore): Promise<void> {
+  // Sorted keys keep diffs of the store readable
+  const sorted = Object.fromEntries(
+    Object.entries(store).sort(([a], [b]) => a.localeCompare(b))
+  );
+  // The lock only covers this process; the CLI scripts write here too, so
+  // never leave a half-written store behind
+  await writeFileAtomic(metadataPath(), JSON.stringify(sorted, null, 2) + '\n');
+}
+
+export function recordImageMetadata(meta: ImageMetadata): Promise<void> {
+  return withStoreLock(async () => {
+    const store = await readImageMetadata();
+    store[meta.filename] = meta;
+    await writeImageMetadata(store);
+  });
+}
+
+/** Every file in `public/downloads`, joined with its stored attribution. */
+export async function listCredits(): Promise<CreditEntry[]> {
+  const [entries, store] = await Promise.all([
+    fs.readdir(downloadsDir(), { withFileTypes: true }).catch(() => []),
+    readImageMetadata(),
+  ]);
+  return entries
+    .filter((e) => e.isFile() && !e.name.startsWith('.'))
+    .map((e) => e.name)
+    .sort((a, b) => a.localeCompare(b))
+    .map((filename) => {
+      const meta: Partial<ImageMetadata> = store[filename] ?? {};
+      return {
+        ...meta,
+        filename,
+        url: `/downloads/${filename}`,
+        source: meta.source || 'unknown',
+      };
+    });
+}
+
+/**
+ * Moves an entry (and its variants' names) to a new filename, e.g. after a
+ * file is renamed.
+ */
+export function renameImageMetadata(from: string, to: string): Promise<void> {
+  return withStoreLock(async () => {
+    const store = await readImageMetadata();
+    const meta = store[from];
+    if (!meta) return;
+    delete store[from];
+    store[to] = {
+      ...meta,
+      filename: to,
+      variants: meta.variants?.map((v) => ({
+        ...v,
+        filename: renamedVariant(v.filename, from, to),
+      })),
+    };
+    await writeImageMetadata(store);
+  });
+}
+
+export function deleteImageMetadata(filename: string): Promise<void> {
+  return withStoreLock(async () => {
+    const store = await readImageMetadata();
+    if (!(filename in store)) return;
+    delete store[filename];
+    await writeImageMetadata(store);
+  });
+}
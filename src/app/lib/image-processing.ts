@@ -0,0 +1,342 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { encode } from 'blurhash';
+import sharp, {
+  type AvifOptions,
+  type JpegOptions,
+  type OutputOptions,
+  type Sharp,
+  type WebpOptions,
+} from 'sharp';
+import { writeFileAtomic } from './files';
+
+export type VariantFormat = 'avif' | 'webp' | 'jpeg';
+
+/**
+ * How the source is cropped to the target aspect ratio. `center` and
+ * `attention` map to sharp's strategies; a focal point (0–1 on each axis)
+ * keeps that point as close to the middle of the crop as the edges allow.
+ */
+export type CropMode = 'center' | 'attention' | FocalPoint;
+
+export type FocalPoint = { x: number; y: number };
+
+/** `"0.4,0.6"` → `{ x: 0.4, y: 0.6 }`; undefined unless both are 0–1. */
+export function parseFocalPoint(value: string): FocalPoint | undefined {
+  const parts = value.split(',').map((v) => v.trim());
+  if (parts.length !== 2 || parts.some((p) => !p)) return undefined;
+  const [x, y] = parts.map(Number) as [number, number];
+  const valid = (n: number) => Number.isFinite(n) && n >= 0 && n <= 1;
+  return valid(x) && valid(y) ? { x, y } : undefined;
+}
+
+export type ProcessingConfig = {
+  /** Target width / height, e.g. 16 / 9. */
+  aspectRatio: number;
+  widths: number[];
+  formats: VariantFormat[];
+  crop: CropMode;
+};
+
+export type ImageVariant = {
+  filename: string;
+  width: number;
+  height: number;
+  format: VariantFormat;
+  bytes: number;
+};
+
+/** Stand-ins shown while the real image loads. */
+export type ImagePlaceholder = {
+  /** `#rrggbb` */
+  dominantColor: string;
+  blurhash: string;
+};
+
+export type ProcessedImage = ImagePlaceholder & {
+  /** Source dimensions after EXIF orientation is applied. */
+  sourceWidth: number;
+  sourceHeight: number;
+  aspectRatio: string;
+  variants: ImageVariant[];
+};
+
+const FORMAT_EXTENSIONS: Record<VariantFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg',
+};
+
+// AVIF at default effort is too slow to run inside a server action
+const FORMAT_OPTIONS: Record<VariantFormat, OutputOptions> = {
+  avif: { quality: 55, effort: 2 } as AvifOptions,
+  webp: { quality: 80 } as WebpOptions,
+  jpeg: { quality: 80, mozjpeg: true } as JpegOptions,
+};
+
+function parseAspectRatio(value: string | undefined): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)\s*$/.exec(
+    value || ''
+  );
+  if (!match) return 16 / 9;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : 16 / 9;
+}
+
+function parseList<T extends string>(
+  value: string | undefined,
+  allowed: readonly T[],
+  fallback: T[]
+): T[] {
+  const items = (value || '')
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter((v): v is T => (allowed as readonly string[]).includes(v));
+  return items.length > 0 ? items : fallback;
+}
+
+export function processingConfig(): ProcessingConfig {
+  const widths = (process.env.IMAGE_VARIANT_WIDTHS || '640,1280,1920')
+    .split(',')
+    .map((w) => Math.round(Number(w)))
+    .filter((w) => Number.isFinite(w) && w > 0)
+    .sort((a, b) => a - b);
+  return {
+    aspectRatio: parseAspectRatio(process.env.IMAGE_ASPECT_RATIO),
+    widths: widths.length > 0 ? widths : [640, 1280, 1920],
+    formats: parseList(
+      process.env.IMAGE_VARIANT_FORMATS,
+      ['avif', 'webp', 'jpeg'] as const,
+      ['avif', 'webp', 'jpeg']
+    ),
+    crop: process.env.IMAGE_CROP === 'attention' ? 'attention' : 'center',
+  };
+}
+
+export function variantsDir(): string {
+  return path.join(process.cwd(), 'public', 'downloads', 'variants');
+}
+
+/** `<baseName>-<width>.<ext>`, relative to `/downloads/variants/`. */
+export function variantFilename(
+  baseName: string,
+  width: number,
+  format: VariantFormat
+): string {
+  return `${baseName}-${width}.${FORMAT_EXTENSIONS[format]}`;
+}
+
+function stemOf(filename: string): string {
+  return path.basename(filename, path.extname(filename));
+}
+
+/** Variant files generated for a download. */
+async function ownVariants(filename: string): Promise<string[]> {
+  const stem = stemOf(filename);
+  const files = await fs.readdir(variantsDir()).catch(() => []);
+  // Only `<stem>-<width>.<ext>`: `<stem>-thumbnail-…` belongs to another file
+  const ownWidth = /^-\d+\.[a-z]+$/;
+  return files.filter(
+    (variant) =>
+      variant.startsWith(stem) && ownWidth.test(variant.slice(stem.length))
+  );
+}
+
+/** Deletes every variant generated for a download. */
+export async function removeVariants(filename: string): Promise<void> {
+  for (const variant of await ownVariants(filename)) {
+    await fs.rm(path.join(variantsDir(), variant), { force: true });
+  }
+}
+
+/** `<stem>-1280.webp` of `from` → the same variant name for `to`. */
+export function renamedVariant(
+  variant: string,
+  from: string,
+  to: string
+): string {
+  const stem = stemOf(from);
+  return variant.startsWith(stem)
+    ? stemOf(to) + variant.slice(stem.length)
+    : variant;
+}
+
+/** Moves a download's variants along with it after a rename. */
+export async function renameVariants(from: string, to: string): Promise<void> {
+  for (const variant of await ownVariants(from)) {
+    await fs.rename(
+      path.join(variantsDir(), variant),
+      path.join(variantsDir(), renamedVariant(variant, from, to))
+    );
+  }
+}
+
+function aspectLabel(ratio: number): string {
+  for (let h = 1; h <= 32; h++) {
+    const w = ratio * h;
+    if (Math.abs(w - Math.round(w)) < 0.01) return `${Math.round(w)}:${h}`;
+  }
+  return ratio.toFixed(3);
+}
+
+function cropRegion(
+  pipeline: Sharp,
+  sourceWidth: number,
+  sourceHeight: number,
+  config: Pick<ProcessingConfig, 'aspectRatio' | 'crop'>,
+  width: number,
+  height: number
+): Sharp {
+  const { aspectRatio, crop } = config;
+  if (typeof crop === 'object') {
+    return pipeline
+      .extract(focalRegion(sourceWidth, sourceHeight, aspectRatio, crop))
+      .resize(width, height, { fit: 'fill' });
+  }
+  return pipeline.resize(width, height, {
+    fit: 'cover',
+    position: crop === 'attention' ? sharp.strategy.attention : 'centre',
+  });
+}
+
+function toHex(channel: number): string {
+  return Math.round(channel).toString(16).padStart(2, '0');
+}
+
+/**
+ * Dominant color and a 4×3 blurhash of the image as cropped for the
+ * variants. Works from a small preview (JPEGs are shrunk while decoding),
+ * so it is cheap even for large files.
+ */
+export async function imagePlaceholder(
+  input: Buffer | string,
+  config: Pick<ProcessingConfig, 'aspectRatio' | 'crop'> = processingConfig()
+): Promise<ImagePlaceholder> {
+  const preview = await sharp(input)
+    .rotate()
+    .resize(256, 256, { fit: 'inside', withoutEnlargement: true })
+    .toBuffer({ resolveWithObject: true });
+  const width = 32;
+  const height = Math.max(1, Math.round(width / config.aspectRatio));
+  const thumbnail = await cropRegion(
+    sharp(preview.data),
+    preview.info.width,
+    preview.info.height,
+    config,
+    width,
+    height
+  )
+    .ensureAlpha()
+    .raw()
+    .toBuffer();
+  const { dominant } = await sharp(thumbnail, {
+    raw: { width, height, channels: 4 },
+  }).stats();
+  return {
+    dominantColor: `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`,
+    blurhash: encode(new Uint8ClampedArray(thumbnail), width, height, 4, 3),
+  };
+}
+
+/** Largest region with the target ratio, positioned by the crop mode. */
+function focalRegion(
+  width: number,
+  height: number,
+  ratio: number,
+  focal: FocalPoint
+) {
+  const cropWidth = Math.min(width, Math.round(height * ratio));
+  const cropHeight = Math.min(height, Math.round(cropWidth / ratio));
+  const clamp = (v: number, max: number) => Math.min(Math.max(v, 0), max);
+  return {
+    left: clamp(Math.round(focal.x * width - cropWidth / 2), width - cropWidth),
+    top: clamp(
+      Math.round(focal.y * height - cropHeight / 2),
+      height - cropHeight
+    ),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * The image with its orientation normalized, cropped to exactly `width` ×
+ * `height` the way its variants are (enlarging it if it is smaller).
+ */
+export async function cropImage(
+  input: Buffer | string,
+  width: number,
+  height: number,
+  crop: CropMode = processingConfig().crop
+): Promise<Buffer> {
+  const oriented = await sharp(input).rotate().toBuffer({
+    resolveWithObject: true,
+  });
+  return cropRegion(
+    sharp(oriented.data),
+    oriented.info.width,
+    oriented.info.height,
+    { aspectRatio: width / height, crop },
+    width,
+    height
+  ).toBuffer();
+}
+
+/**
+ * Normalizes orientation, crops to the configured aspect ratio and writes
+ * every width/format combination into `public/downloads/variants`. Widths
+ * larger than the cropped source are skipped (the source width is used
+ * instead when nothing else fits), so images are never upscaled.
+ */
+export async function processImage(
+  input: Buffer,
+  baseName: string,
+  config: ProcessingConfig = processingConfig()
+): Promise<ProcessedImage> {
+  // Bake the EXIF orientation into the pixels first
+  const oriented = await sharp(input).rotate().toBuffer({
+    resolveWithObject: true,
+  });
+  const { width: sourceWidth, height: sourceHeight } = oriented.info;
+  const { aspectRatio } = config;
+
+  const croppedWidth = Math.min(
+    sourceWidth,
+    Math.round(sourceHeight * aspectRatio)
+  );
+  const fitting = config.widths.filter((w) => w <= croppedWidth);
+  const widths = fitting.length > 0 ? fitting : [croppedWidth];
+
+  const outDir = variantsDir();
+  await fs.mkdir(outDir, { recursive: true });
+
+  const variants: ImageVariant[] = [];
+  for (const width of widths) {
+    const height = Math.round(width / aspectRatio);
+    const pipeline = cropRegion(
+      sharp(oriented.data),
+      sourceWidth,
+      sourceHeight,
+      config,
+      width,
+      height
+    );
+    for (const format of config.formats) {
+      const filename = variantFilename(baseName, width, format);
+      const output = await pipeline
+        .clone()
+        .toFormat(format, FORMAT_OPTIONS[format])
+        .toBuffer();
+      await writeFileAtomic(path.join(outDir, filename), output);
+      variants.push({ filename, width, height, format, bytes: output.length });
+    }
+  }
+
+  return {
+    sourceWidth,
+    sourceHeight,
+    aspectRatio: aspectLabel(aspectRatio),
+    variants,
+    ...(await imagePlaceholder(oriented.data, config)),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * What an image is used for. A location has at most one hero (the CSV's
+ * `filename` column) and one square thumbnail, and an ordered gallery of up
+ * to `ROLE_LIMITS.gallery` images. `REQUIRED_IMAGE_ROLES` decides which of
+ * them a location needs before it counts as complete.
+ */
+export type ImageRole = 'hero' | 'thumbnail' | 'gallery';
+
+export const IMAGE_ROLES: Record<ImageRole, string> = {
+  hero: 'Hero',
+  thumbnail: 'Thumbnail',
+  gallery: 'Gallery',
+};
+
+export const ROLE_LIMITS: Record<ImageRole, number> = {
+  hero: 1,
+  thumbnail: 1,
+  gallery: 5,
+};
+
+/** Images each role needs before a location is complete. */
+export type RoleRequirements = Partial<Record<ImageRole, number>>;
+
+export function isImageRole(value: string): value is ImageRole {
+  return Object.hasOwn(IMAGE_ROLES, value);
+}
+
+/**
+ * Parses `REQUIRED_IMAGE_ROLES`, e.g. `hero,thumbnail,gallery:3` (the count
+ * after a colon defaults to 1). Without it only the hero is required.
+ */
+export function requiredRoles(): RoleRequirements {
+  const required: RoleRequirements = {};
+  for (const item of (process.env.REQUIRED_IMAGE_ROLES || '').split(',')) {
+    const [name = '', count] = item.split(':').map((s) => s.trim());
+    const role = name.toLowerCase();
+    if (!isImageRole(role)) continue;
+    const n = count === undefined ? 1 : Math.round(Number(count));
+    if (Number.isFinite(n) && n > 0) {
+      required[role] = Math.min(n, ROLE_LIMITS[role]);
+    }
+  }
+  return Object.keys(required).length > 0 ? required : { hero: 1 };
+}
+
+/** Roles with fewer images than required, in `IMAGE_ROLES` order. */
+export function missingRoles(
+  images: { role: ImageRole }[],
+  required: RoleRequirements = requiredRoles()
+): ImageRole[] {
+  return (Object.keys(IMAGE_ROLES) as ImageRole[]).filter(
+    (role) =>
+      images.filter((image) => image.role === role).length <
+      (required[role] ?? 0)
+  );
+}
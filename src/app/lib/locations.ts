@@ -0,0 +1,782 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { aliasesByPlace, type LocationAlias } from './aliases';
+import {
+  columnIndex,
+  CsvDocument,
+  CsvRecord,
+  parseCsv,
+  stringifyCsv,
+} from './csv';
+import { type Db, getDb } from './db';
+import {
+  HistoryEntry,
+  historyKey,
+  popFilenameHistory,
+  pushFilenameHistory,
+} from './history';
+import type { FocalPoint } from './image-processing';
+import { type ImageRole, ROLE_LIMITS } from './image-roles';
+import { cleanPlaceName } from './query';
+import { clearSkip } from './skips';
+import { tokenize } from './text';
+
+/**
+ * Locations live in the `locations` table. Each row keeps its cells exactly
+ * as they appeared in the imported CSV (untrimmed; NULL for cells a short
+ * record didn't have), and `csv_format` remembers the header, BOM and line
+ * endings, so an export reproduces the file byte for byte. Geo metadata from
+ * a GeoNames import is kept in columns of its own and never exported.
+ *
+ * The `filename` cell holds a location's hero image. Its thumbnail and
+ * gallery images are kept in `location_images`, and the focal points chosen
+ * for its images in `image_crops`, keyed by city and country like the
+ * filename history, so they survive a CSV re-import.
+ */
+export class CsvImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvImportError';
+  }
+}
+
+/** CSV the database is seeded from the first time it is opened. */
+export function locationsCsvPath(): string {
+  return path.join(process.cwd(), 'src', 'app', 'file.csv');
+}
+
+/** Set on locations matched by a GeoNames import. */
+export type GeoFields = {
+  /** ISO 3166-1 alpha-2, e.g. `FR`. */
+  countryCode?: string;
+  /** First-level administrative region, e.g. `Île-de-France`. */
+  region?: string;
+  latitude?: number;
+  longitude?: number;
+  population?: number;
+  geonameId?: number;
+};
+
+export type LocationImage = {
+  role: ImageRole;
+  filename: string;
+  /** Focal point its variants (and share cards) were cropped around. */
+  crop?: FocalPoint;
+};
+
+export type LocationRow = GeoFields & {
+  city: string;
+  country: string;
+  type?: string;
+  /** The hero image. */
+  filename?: string;
+  /** Every image: the hero, the thumbnail, then the gallery in order. */
+  images: LocationImage[];
+  /** Local, historical or other names searches can fall back to. */
+  aliases: LocationAlias[];
+};
+
+type GeoRecord = {
+  country_code: string | null;
+  region: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  population: number | null;
+  geoname_id: number | null;
+};
+
+type LocationRecord = GeoRecord & {
+  id: number;
+  city: string | null;
+  country: string | null;
+  type: string | null;
+  filename: string | null;
+  /** JSON object of cells in other columns, keyed by column index. */
+  extra: string | null;
+};
+
+type ImageRecord = {
+  city: string;
+  country: string;
+  role: Exclude<ImageRole, 'hero'>;
+  position: number;
+  filename: string;
+};
+
+type CropRecord = {
+  city: string;
+  country: string;
+  filename: string;
+  focal_x: number;
+  focal_y: number;
+};
+
+type CsvFormat = Omit<CsvDocument, 'rows'>;
+
+type FormatRow = {
+  header: string;
+  bom: number;
+  eol: string;
+  trailing_newline: number;
+};
+
+const KNOWN_COLUMNS = ['city', 'country', 'type', 'filename'] as const;
+
+const GEO_UPDATE_SQL = `UPDATE locations SET country_code = @country_code,
+  region = @region, latitude = @latitude, longitude = @longitude,
+  population = @population, geoname_id = @geoname_id WHERE id = @id`;
+
+const trimmed = (value: string | null) => (value ?? '').trim();
+
+/**
+ * Key two spellings of a place share: case, accents, punctuation and
+ * parenthesised notes are ignored (`"São Tomé"` ≈ `"Sao Tome"`).
+ */
+export function placeKey(city: string, country: string): string {
+  const fold = (name: string) => tokenize(cleanPlaceName(name)).join(' ');
+  return `${fold(city)}|${fold(country)}`;
+}
+
+const seeded = new WeakSet<Db>();
+
+function readFormat(db: Db): CsvFormat | undefined {
+  const row = db.prepare('SELECT * FROM csv_format WHERE id = 1').get() as
+    FormatRow | undefined;
+  if (!row) return undefined;
+  return {
+    header: JSON.parse(row.header),
+    bom: row.bom === 1,
+    eol: row.eol as CsvFormat['eol'],
+    trailingNewline: row.trailing_newline === 1,
+  };
+}
+
+function writeFormat(db: Db, format: CsvFormat): void {
+  db.prepare(
+    `INSERT OR REPLACE INTO csv_format (id, header, bom, eol, trailing_newline)
+     VALUES (1, ?, ?, ?, ?)`
+  ).run(
+    JSON.stringify(format.header),
+    format.bom ? 1 : 0,
+    format.eol,
+    format.trailingNewline ? 1 : 0
+  );
+}
+
+/**
+ * Replaces every location (and the CSV format) with the document's rows.
+ * Geo metadata carries over to rows with the same city and country.
+ */
+function replaceLocations(db: Db, doc: CsvDocument): number {
+  const { header } = doc;
+  if (
+    columnIndex(header, 'city') === -1 ||
+    columnIndex(header, 'country') === -1
+  ) {
+    throw new CsvImportError('CSV header needs city and country columns');
+  }
+  const known = new Map<number, (typeof KNOWN_COLUMNS)[number]>();
+  for (const name of KNOWN_COLUMNS) {
+    const index = columnIndex(header, name);
+    if (index !== -1) known.set(index, name);
+  }
+
+  const geo = new Map<string, GeoRecord>();
+  for (const record of db
+    .prepare('SELECT * FROM locations WHERE country_code IS NOT NULL')
+    .all() as LocationRecord[]) {
+    geo.set(placeKey(trimmed(record.city), trimmed(record.country)), record);
+  }
+
+  db.prepare('DELETE FROM locations').run();
+  writeFormat(db, doc);
+  const insert = db.prepare(
+    `INSERT INTO locations (city, country, type, filename, extra)
+     VALUES (@city, @country, @type, @filename, @extra)`
+  );
+  const updateGeo = db.prepare(GEO_UPDATE_SQL);
+  for (const fields of doc.rows) {
+    const values: Record<string, string | null> = {
+      city: null,
+      country: null,
+      type: null,
+      filename: null,
+    };
+    const extra: Record<number, string> = {};
+    fields.forEach((value, index) => {
+      const name = known.get(index);
+      if (name) values[name] = value;
+      else extra[index] = value;
+    });
+    const { lastInsertRowid } = insert.run({
+      ...values,
+      extra: Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+    });
+    const carried = geo.get(
+      placeKey(trimmed(values.city), trimmed(values.country))
+    );
+    if (carried) updateGeo.run({ ...carried, id: lastInsertRowid });
+  }
+  return doc.rows.length;
+}
+
+function toCsvRecord(row: LocationRecord, header: CsvRecord): CsvRecord {
+  const fields: (string | undefined)[] = [];
+  for (const name of KNOWN_COLUMNS) {
+    const index = columnIndex(header, name);
+    const value = row[name];
+    if (index !== -1 && value !== null) fields[index] = value;
+  }
+  const extra: Record<string, string> = row.extra ? JSON.parse(row.extra) : {};
+  for (const [index, value] of Object.entries(extra)) {
+    fields[Number(index)] = value;
+  }
+  return Array.from(fields, (v) => v ?? '');
+}
+
+/** The database, seeded from `file.csv` if it has never been imported. */
+function locationsDb(): Db {
+  const db = getDb();
+  if (seeded.has(db)) return db;
+  db.transaction(() => {
+    if (readFormat(db)) return;
+    const csvPath = locationsCsvPath();
+    if (fs.existsSync(csvPath)) {
+      replaceLocations(db, parseCsv(fs.readFileSync(csvPath, 'utf8')));
+    } else {
+      writeFormat(db, {
+        header: [...KNOWN_COLUMNS],
+        bom: false,
+        eol: '\n',
+        trailingNewline: true,
+      });
+    }
+  }).immediate();
+  seeded.add(db);
+  return db;
+}
+
+function toGeoFields(record: GeoRecord): GeoFields {
+  if (record.country_code === null) return {};
+  return {
+    countryCode: record.country_code,
+    region: record.region ?? undefined,
+    latitude: record.latitude ?? undefined,
+    longitude: record.longitude ?? undefined,
+    population: record.population ?? undefined,
+    geonameId: record.geoname_id ?? undefined,
+  };
+}
+
+function imageRecords(db: Db, city?: string, country?: string) {
+  const place = city === undefined ? '' : 'WHERE city = ? AND country = ?';
+  // Thumbnail before gallery, then gallery order
+  return db
+    .prepare(
+      `SELECT * FROM location_images ${place}
+       ORDER BY role = 'gallery', position, id`
+    )
+    .all(...(city === undefined ? [] : [city, country])) as ImageRecord[];
+}
+
+/** Focal points by filename, keyed by `historyKey` of the location. */
+function cropRecords(db: Db, city?: string, country?: string) {
+  const place = city === undefined ? '' : 'WHERE city = ? AND country = ?';
+  const crops = new Map<string, Map<string, FocalPoint>>();
+  for (const record of db
+    .prepare(`SELECT * FROM image_crops ${place}`)
+    .all(...(city === undefined ? [] : [city, country])) as CropRecord[]) {
+    const key = historyKey(record.city, record.country);
+    const byFile = crops.get(key) ?? new Map<string, FocalPoint>();
+    byFile.set(record.filename, { x: record.focal_x, y: record.focal_y });
+    crops.set(key, byFile);
+  }
+  return crops;
+}
+
+function withHero(
+  filename: string | undefined,
+  records: ImageRecord[],
+  crops: Map<string, FocalPoint> = new Map()
+): LocationImage[] {
+  const images: LocationImage[] = [
+    ...(filename ? [{ role: 'hero' as const, filename }] : []),
+    ...records.map(({ role, filename }) => ({ role, filename })),
+  ];
+  return images.map((image) => {
+    const crop = crops.get(image.filename);
+    return crop ? { ...image, crop } : image;
+  });
+}
+
+export async function loadLocations(): Promise<LocationRow[]> {
+  const db = locationsDb();
+  const records = db
+    .prepare('SELECT * FROM locations ORDER BY id')
+    .all() as LocationRecord[];
+  const images = new Map<string, ImageRecord[]>();
+  for (const image of imageRecords(db)) {
+    const key = historyKey(image.city, image.country);
+    images.set(key, [...(images.get(key) ?? []), image]);
+  }
+  const aliases = aliasesByPlace(db);
+  const crops = cropRecords(db);
+  const rows: LocationRow[] = [];
+  for (const record of records) {
+    const city = trimmed(record.city);
+    const country = trimmed(record.country);
+    if (!city || !country) continue;
+    const filename =
+      record.filename === null ? undefined : record.filename.trim();
+    rows.push({
+      city,
+      country,
+      type: record.type === null ? undefined : record.type.trim(),
+      filename,
+      images: withHero(
+        filename,
+        images.get(historyKey(city, country)) ?? [],
+        crops.get(historyKey(city, country))
+      ),
+      aliases: aliases.get(historyKey(city, country)) ?? [],
+      ...toGeoFields(record),
+    });
+  }
+  return rows;
+}
+
+/** A location's images, hero first (see `LocationRow.images`). */
+export async function locationImages(
+  city: string,
+  country: string
+): Promise<LocationImage[]> {
+  const db = locationsDb();
+  const hero = db
+    .prepare(
+      `SELECT filename FROM locations WHERE trim(city) = ? AND trim(country) = ?
+       AND trim(coalesce(filename, '')) <> '' ORDER BY id LIMIT 1`
+    )
+    .get(city, country) as Pick<LocationRecord, 'filename'> | undefined;
+  return withHero(
+    trimmed(hero?.filename ?? null),
+    imageRecords(db, city, country),
+    cropRecords(db, city, country).get(historyKey(city, country))
+  );
+}
+
+/**
+ * Records the focal point a location's image was cropped around, or forgets
+ * it (`undefined`) when the image was cropped by the default strategy.
+ */
+export async function setImageCrop(
+  city: string,
+  country: string,
+  filename: string,
+  crop: FocalPoint | undefined
+): Promise<void> {
+  const db = locationsDb();
+  if (!crop) {
+    db.prepare(
+      'DELETE FROM image_crops WHERE city = ? AND country = ? AND filename = ?'
+    ).run(city, country, filename);
+    return;
+  }
+  db.prepare(
+    `INSERT OR REPLACE INTO image_crops
+       (city, country, filename, focal_x, focal_y) VALUES (?, ?, ?, ?, ?)`
+  ).run(city, country, filename, crop.x, crop.y);
+}
+
+/**
+ * Sets an image for a city/country. The hero goes in the filename cell,
+ * preferring a matching row without one, then the first matching row, else
+ * appending a new row; a thumbnail replaces the current one; a gallery
+ * image is added at the end (a file already in the gallery is left where
+ * it is). What changed is pushed onto the location's history so it can be
+ * reverted, and the location leaves the skip list.
+ */
+export async function setLocationFilename(
+  city: string,
+  country: string,
+  filename: string,
+  role: ImageRole = 'hero'
+): Promise<void> {
+  const db = locationsDb();
+  db.transaction(() => {
+    let previous: string;
+    if (role === 'hero') {
+      previous = writeFilename(db, city, country, filename);
+    } else if (role === 'thumbnail') {
+      previous = writeThumbnail(db, city, country, filename);
+    } else {
+      const gallery = imageRecords(db, city, country).filter(
+        (r) => r.role === 'gallery'
+      );
+      if (gallery.some((r) => r.filename === filename)) return;
+      if (gallery.length >= ROLE_LIMITS.gallery) {
+        throw new Error(
+          `${city} already has ${ROLE_LIMITS.gallery} gallery images`
+        );
+      }
+      db.prepare(
+        `INSERT INTO location_images (city, country, role, position, filename)
+         VALUES (?, ?, 'gallery', ?, ?)`
+      ).run(
+        city,
+        country,
+        Math.max(-1, ...gallery.map((r) => r.position)) + 1,
+        filename
+      );
+      previous = '';
+    }
+    if (filename) clearSkip(db, city, country);
+    if (previous === filename) return;
+    pushFilenameHistory(db, city, country, {
+      role,
+      filename: previous,
+      replacedBy: filename,
+      replacedAt: new Date().toISOString(),
+    });
+  }).immediate();
+}
+
+/**
+ * Undoes a location's latest image change: the hero or thumbnail it had
+ * before comes back, or the gallery image that was added is removed.
+ * Resolves to the history entry undone (its `filename` is the restored
+ * value, '' when the role had none), or null when there is no history to go
+ * back to.
+ */
+export async function revertLocationFilename(
+  city: string,
+  country: string
+): Promise<HistoryEntry | null> {
+  const db = locationsDb();
+  return db
+    .transaction(() => {
+      const entry = popFilenameHistory(db, city, country);
+      if (!entry) return null;
+      if (entry.role === 'hero') {
+        writeFilename(db, city, country, entry.filename);
+      } else if (entry.role === 'thumbnail') {
+        writeThumbnail(db, city, country, entry.filename);
+      } else {
+        db.prepare(
+          `DELETE FROM location_images WHERE id = (
+             SELECT id FROM location_images WHERE city = ? AND country = ?
+             AND role = 'gallery' AND filename = ? ORDER BY id DESC LIMIT 1)`
+        ).run(city, country, entry.replacedBy);
+      }
+      return entry;
+    })
+    .immediate();
+}
+
+/** Writes the cell and returns its previous (trimmed) value. */
+function writeFilename(
+  db: Db,
+  city: string,
+  country: string,
+  filename: string
+): string {
+  const format = readFormat(db)!;
+  if (columnIndex(format.header, 'filename') === -1) {
+    format.header.push('filename');
+    writeFormat(db, format);
+  }
+
+  // Prefer a matching row whose filename cell is still empty
+  const target = db
+    .prepare(
+      `SELECT * FROM locations WHERE trim(city) = ? AND trim(country) = ?
+       ORDER BY trim(coalesce(filename, '')) <> '', id LIMIT 1`
+    )
+    .get(city, country) as LocationRecord | undefined;
+
+  if (target) {
+    db.prepare('UPDATE locations SET filename = ? WHERE id = ?').run(
+      filename,
+      target.id
+    );
+    return trimmed(target.filename);
+  }
+
+  // No existing row matched; append one
+  appendRow(db, format, { city, country, type: '', filename });
+  return '';
+}
+
+/** Replaces the thumbnail ('' removes it) and returns the previous one. */
+function writeThumbnail(
+  db: Db,
+  city: string,
+  country: string,
+  filename: string
+): string {
+  const previous = imageRecords(db, city, country).find(
+    (r) => r.role === 'thumbnail'
+  );
+  db.prepare(
+    `DELETE FROM location_images WHERE city = ? AND country = ?
+     AND role = 'thumbnail'`
+  ).run(city, country);
+  if (filename) {
+    db.prepare(
+      `INSERT INTO location_images (city, country, role, position, filename)
+       VALUES (?, ?, 'thumbnail', 0, ?)`
+    ).run(city, country, filename);
+  }
+  return previous?.filename ?? '';
+}
+
+/** Inserts a row with every column of the CSV present; returns its id. */
+function appendRow(
+  db: Db,
+  format: CsvFormat,
+  row: Required<Pick<LocationRow, 'city' | 'country' | 'type' | 'filename'>>
+): number {
+  const extra: Record<number, string> = {};
+  format.header.forEach((name, index) => {
+    if (
+      !(KNOWN_COLUMNS as readonly string[]).includes(name.trim().toLowerCase())
+    )
+      extra[index] = '';
+  });
+  const has = (column: string) => columnIndex(format.header, column) !== -1;
+  const { lastInsertRowid } = db
+    .prepare(
+      `INSERT INTO locations (city, country, type, filename, extra)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(
+      row.city,
+      row.country,
+      has('type') ? row.type : null,
+      has('filename') ? row.filename : null,
+      Object.keys(extra).length > 0 ? JSON.stringify(extra) : null
+    );
+  return Number(lastInsertRowid);
+}
+
+export type GeoPlace = GeoFields & {
+  city: string;
+  country: string;
+  countryCode: string;
+  /** Other spellings (ASCII, alternate names) an existing row may use. */
+  alternateNames?: string[];
+};
+
+export type GeoMergeResult = {
+  /** Existing rows given the geo fields of the place they matched. */
+  updated: number;
+  added: number;
+  /** Places dropped because a more populous one had the same name. */
+  duplicates: number;
+};
+
+/**
+ * Merges places from a GeoNames-style dump into the locations: a place
+ * whose name (or an alternate name) matches an existing row's city and
+ * country under `placeKey` fills in that row's geo fields; any other place
+ * is appended as a new row of `type`. Places are merged most populous
+ * first, so of several same-named places in a country the largest wins.
+ */
+export async function mergeGeoPlaces(
+  places: GeoPlace[],
+  { type = 'City', dryRun = false }: { type?: string; dryRun?: boolean } = {}
+): Promise<GeoMergeResult> {
+  const db = locationsDb();
+  return db
+    .transaction(() => {
+      const format = readFormat(db)!;
+      const byKey = new Map<string, number[]>();
+      for (const record of db
+        .prepare('SELECT id, city, country FROM locations ORDER BY id')
+        .all() as LocationRecord[]) {
+        const key = placeKey(trimmed(record.city), trimmed(record.country));
+        byKey.set(key, [...(byKey.get(key) ?? []), record.id]);
+      }
+      const updateGeo = db.prepare(GEO_UPDATE_SQL);
+      const claimed = new Set<string>();
+      const result: GeoMergeResult = { updated: 0, added: 0, duplicates: 0 };
+
+      const sorted = [...places].sort(
+        (a, b) => (b.population ?? 0) - (a.population ?? 0)
+      );
+      for (const place of sorted) {
+        const primary = placeKey(place.city, place.country);
+        if (claimed.has(primary)) {
+          result.duplicates += 1;
+          continue;
+        }
+        // Names in other scripts fold to nothing and can't match
+        const match = [place.city, ...(place.alternateNames ?? [])]
+          .filter((name) => tokenize(name).length > 0)
+          .map((name) => placeKey(name, place.country))
+          .find((key) => byKey.has(key) && !claimed.has(key));
+        claimed.add(primary);
+        const geo: GeoRecord = {
+          country_code: place.countryCode,
+          region: place.region ?? null,
+          latitude: place.latitude ?? null,
+          longitude: place.longitude ?? null,
+          population: place.population ?? null,
+          geoname_id: place.geonameId ?? null,
+        };
+        if (match) {
+          claimed.add(match);
+          const ids = byKey.get(match)!;
+          if (!dryRun) for (const id of ids) updateGeo.run({ ...geo, id });
+          result.updated += ids.length;
+          continue;
+        }
+        if (!dryRun) {
+          const id = appendRow(db, format, {
+            city: place.city,
+            country: place.country,
+            type,
+            filename: '',
+          });
+          updateGeo.run({ ...geo, id });
+        }
+        result.added += 1;
+      }
+      return result;
+    })
+    .immediate();
+}
+
+export type FilenameCell = {
+  city: string;
+  country: string;
+  /** Untrimmed cell contents, exactly as stored. */
+  raw: string;
+};
+
+function filenameRecords(db: Db): LocationRecord[] {
+  return (
+    db
+      .prepare(
+        "SELECT * FROM locations WHERE filename IS NOT NULL AND filename <> '' ORDER BY id"
+      )
+      .all() as LocationRecord[]
+  ).filter((r) => trimmed(r.filename));
+}
+
+/** Every non-empty filename cell, without trimming. */
+export async function loadFilenameCells(): Promise<FilenameCell[]> {
+  return filenameRecords(locationsDb()).map((r) => ({
+    city: trimmed(r.city),
+    country: trimmed(r.country),
+    raw: r.filename!,
+  }));
+}
+
+/**
+ * Rewrites filename cells in one transaction. `rewrite` returns the new
+ * cell value, or undefined to leave the cell alone. Resolves to the number
+ * of cells changed.
+ */
+export async function rewriteFilenameCells(
+  rewrite: (cell: FilenameCell) => string | undefined
+): Promise<number> {
+  const db = locationsDb();
+  return db
+    .transaction(() => {
+      const update = db.prepare(
+        'UPDATE locations SET filename = ? WHERE id = ?'
+      );
+      let changed = 0;
+      for (const record of filenameRecords(db)) {
+        const next = rewrite({
+          city: trimmed(record.city),
+          country: trimmed(record.country),
+          raw: record.filename!,
+        });
+        if (next !== undefined && next !== record.filename) {
+          update.run(next, record.id);
+          changed++;
+        }
+      }
+      return changed;
+    })
+    .immediate();
+}
+
+export type RoleImage = LocationImage & { city: string; country: string };
+
+/** Every thumbnail and gallery image (heroes are in the filename cells). */
+export async function loadRoleImages(): Promise<RoleImage[]> {
+  return imageRecords(locationsDb()).map(
+    ({ city, country, role, filename }) => ({ city, country, role, filename })
+  );
+}
+
+/**
+ * Points thumbnail and gallery entries (and the filename history and focal
+ * points of any image) at renamed files. Resolves to the number of
+ * thumbnail and gallery entries changed.
+ */
+export async function renameRoleImages(
+  renamed: Map<string, string>
+): Promise<number> {
+  const db = locationsDb();
+  return db
+    .transaction(() => {
+      const update = db.prepare(
+        'UPDATE location_images SET filename = ? WHERE filename = ?'
+      );
+      const updateCrops = db.prepare(
+        'UPDATE OR REPLACE image_crops SET filename = ? WHERE filename = ?'
+      );
+      const updateHistory = db.prepare(
+        'UPDATE filename_history SET filename = ? WHERE trim(filename) = ?'
+      );
+      const updateReplacedBy = db.prepare(
+        'UPDATE filename_history SET replaced_by = ? WHERE replaced_by = ?'
+      );
+      let changed = 0;
+      for (const [from, to] of renamed) {
+        changed += update.run(to, from).changes;
+        updateCrops.run(to, from);
+        updateHistory.run(to, from);
+        updateReplacedBy.run(to, from);
+      }
+      return changed;
+    })
+    .immediate();
+}
+
+/** The locations as CSV, in the format they were imported with. */
+export async function exportLocationsCsv(): Promise<string> {
+  const db = locationsDb();
+  const format = readFormat(db)!;
+  const records = db
+    .prepare('SELECT * FROM locations ORDER BY id')
+    .all() as LocationRecord[];
+  return stringifyCsv({
+    ...format,
+    rows: records.map((r) => toCsvRecord(r, format.header)),
+  });
+}
+
+/**
+ * Replaces every location with the rows of a CSV file. Filename history and
+ * thumbnail/gallery images are kept, since they are keyed by city and
+ * country rather than by row.
+ */
+export async function importLocationsCsv(
+  text: string
+): Promise<{ rows: number }> {
+  let doc: CsvDocument;
+  try {
+    doc = parseCsv(text);
+  } catch (err) {
+    throw new CsvImportError(
+      err instanceof Error ? err.message : 'Invalid CSV'
+    );
+  }
+  const db = locationsDb();
+  const rows = db.transaction(() => replaceLocations(db, doc)).immediate();
+  return { rows };
+}
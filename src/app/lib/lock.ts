@@ -0,0 +1,13 @@
+/**
+ * In-process async mutex. Calls to the returned function run one at a time,
+ * in call order, so read-modify-write cycles on a shared file don't
+ * interleave within this server process.
+ */
+export function createLock() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return function withLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
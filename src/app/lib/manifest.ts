@@ -0,0 +1,316 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { writeFileAtomic } from './files';
+import {
+  downloadsDir,
+  ImageMetadata,
+  readImageMetadata,
+} from './image-metadata';
+import {
+  type FocalPoint,
+  ImagePlaceholder,
+  imagePlaceholder,
+  VariantFormat,
+} from './image-processing';
+import type { ImageRole } from './image-roles';
+import { GeoFields, loadLocations } from './locations';
+import { createLock } from './lock';
+import { placeSlug, uniqueSlug } from './slug';
+
+/**
+ * Everything a consuming app needs to show the images without parsing
+ * `file.csv`: one entry per location with its images (hero, thumbnail and
+ * gallery), each with its variants, a placeholder and attribution.
+ * `version` is the schema version; `hash` changes whenever the content
+ * does, so it can be used to cache-bust.
+ */
+export const MANIFEST_VERSION = 1;
+
+export type ManifestVariant = {
+  url: string;
+  width: number;
+  height: number;
+  format: VariantFormat;
+  bytes: number;
+};
+
+export type ManifestImage = {
+  filename: string;
+  url: string;
+  width?: number;
+  height?: number;
+  aspectRatio?: string;
+  dominantColor?: string;
+  blurhash?: string;
+  variants: ManifestVariant[];
+  /** Point the variants were cropped around, when one was chosen (0–1). */
+  focalPoint?: FocalPoint;
+  attribution: {
+    source: string;
+    author?: string;
+    authorURL?: string;
+    pageURL?: string;
+    license?: string;
+    licenseURL?: string;
+  };
+};
+
+export type ManifestLocation = Omit<GeoFields, 'geonameId'> & {
+  city: string;
+  country: string;
+  type: string;
+  /** `<city>-<country>`, unique within the manifest (`-2`, … on clashes). */
+  slug: string;
+  /** The hero; null until one is picked. */
+  image: ManifestImage | null;
+  /** Every image with its role: hero, thumbnail, then gallery in order. */
+  images: (ManifestImage & { role: ImageRole })[];
+};
+
+export type Manifest = {
+  version: number;
+  hash: string;
+  generatedAt: string;
+  locations: ManifestLocation[];
+};
+
+const withManifestLock = createLock();
+
+export function manifestPath(): string {
+  return path.join(process.cwd(), 'public', 'manifest.json');
+}
+
+export async function readManifest(): Promise<Manifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath(), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/** Placeholders for downloads with no stored metadata, by size/mtime. */
+type PlaceholderCache = Record<
+  string,
+  ImagePlaceholder & { size: number; mtimeMs: number }
+>;
+
+export function placeholderCachePath(): string {
+  return path.join(process.cwd(), 'data', 'placeholder-cache.json');
+}
+
+async function readPlaceholderCache(): Promise<PlaceholderCache> {
+  try {
+    const parsed = JSON.parse(
+      await fs.readFile(placeholderCachePath(), 'utf8')
+    );
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The cached placeholder for a download with no stored one, if the file
+ * hasn't changed since. Computing them is left to `backfillPlaceholders`.
+ */
+async function cachedPlaceholder(
+  filename: string,
+  cache: PlaceholderCache
+): Promise<ImagePlaceholder | undefined> {
+  const known = cache[filename];
+  if (!known) return undefined;
+  try {
+    const stat = await fs.stat(path.join(downloadsDir(), filename));
+    if (known.size !== stat.size || known.mtimeMs !== stat.mtimeMs) {
+      return undefined;
+    }
+    return { dominantColor: known.dominantColor, blurhash: known.blurhash };
+  } catch {
+    // Missing file; reconcile reports those
+    return undefined;
+  }
+}
+
+function needsPlaceholder(meta: Partial<ImageMetadata> | undefined): boolean {
+  return !meta?.dominantColor || !meta.blurhash;
+}
+
+/**
+ * Computes placeholders for downloads picked before they were recorded and
+ * caches them. Decoding every such file takes minutes on a large library,
+ * so this runs from `npm run manifest`, never while handling a request;
+ * until then those images are listed without a placeholder.
+ * Returns how many were computed.
+ */
+export async function backfillPlaceholders(): Promise<number> {
+  const [rows, store, cache] = await Promise.all([
+    loadLocations(),
+    readImageMetadata(),
+    readPlaceholderCache(),
+  ]);
+  const filenames = new Set(
+    rows
+      .flatMap((row) => row.images.map((i) => i.filename))
+      .filter((filename) => needsPlaceholder(store[filename]))
+  );
+  let computed = 0;
+  for (const filename of filenames) {
+    if (await cachedPlaceholder(filename, cache)) continue;
+    try {
+      const filePath = path.join(downloadsDir(), filename);
+      const stat = await fs.stat(filePath);
+      const placeholder = await imagePlaceholder(filePath);
+      cache[filename] = {
+        ...placeholder,
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+      };
+      computed++;
+    } catch {
+      // Missing or undecodable file; reconcile reports those
+    }
+  }
+  if (computed > 0) {
+    await writeFileAtomic(
+      placeholderCachePath(),
+      JSON.stringify(cache, null, 2) + '\n'
+    );
+  }
+  return computed;
+}
+
+function describeImage(
+  filename: string,
+  meta: Partial<ImageMetadata>
+): ManifestImage {
+  return {
+    filename,
+    url: `/downloads/${filename}`,
+    width: meta.width,
+    height: meta.height,
+    aspectRatio: meta.aspectRatio,
+    dominantColor: meta.dominantColor,
+    blurhash: meta.blurhash,
+    variants: (meta.variants ?? []).map((v) => ({
+      url: `/downloads/variants/${v.filename}`,
+      width: v.width,
+      height: v.height,
+      format: v.format,
+      bytes: v.bytes,
+    })),
+    attribution: {
+      source: meta.source || 'unknown',
+      author: meta.author,
+      authorURL: meta.authorURL,
+      pageURL: meta.pageURL,
+      license: meta.license,
+      licenseURL: meta.licenseURL,
+    },
+  };
+}
+
+function contentHash(locations: ManifestLocation[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ version: MANIFEST_VERSION, locations }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export async function buildManifest(): Promise<Manifest> {
+  const [rows, store, cache] = await Promise.all([
+    loadLocations(),
+    readImageMetadata(),
+    readPlaceholderCache(),
+  ]);
+  const described = new Map<string, ManifestImage>();
+  const describe = async (filename: string) => {
+    let image = described.get(filename);
+    if (!image) {
+      let meta: Partial<ImageMetadata> = store[filename] ?? {};
+      if (needsPlaceholder(meta)) {
+        meta = { ...meta, ...(await cachedPlaceholder(filename, cache)) };
+      }
+      image = describeImage(filename, meta);
+      described.set(filename, image);
+    }
+    return image;
+  };
+  const locations: ManifestLocation[] = [];
+  const slugs = new Set<string>();
+  for (const row of rows) {
+    const images: ManifestLocation['images'] = [];
+    for (const { role, filename, crop } of row.images) {
+      images.push({ role, ...(await describe(filename)), focalPoint: crop });
+    }
+    const slug = await uniqueSlug(placeSlug(row.city, row.country), (s) =>
+      slugs.has(s)
+    );
+    slugs.add(slug);
+    const hero = row.images.find((i) => i.role === 'hero');
+    locations.push({
+      city: row.city,
+      country: row.country,
+      type: row.type ?? '',
+      slug,
+      countryCode: row.countryCode,
+      region: row.region,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      population: row.population,
+      image: hero
+        ? { ...(await describe(hero.filename)), focalPoint: hero.crop }
+        : null,
+      images,
+    });
+  }
+  return {
+    version: MANIFEST_VERSION,
+    hash: contentHash(locations),
+    generatedAt: new Date().toISOString(),
+    locations,
+  };
+}
+
+/**
+ * Rebuilds `public/manifest.json`. The file is left alone when the content
+ * hash hasn't changed, so `generatedAt` only moves when something did.
+ */
+export function writeManifest(): Promise<Manifest> {
+  return withManifestLock(rebuildManifest);
+}
+
+async function rebuildManifest(): Promise<Manifest> {
+  const [manifest, current] = await Promise.all([
+    buildManifest(),
+    readManifest().catch(() => null),
+  ]);
+  if (current?.version === manifest.version && current.hash === manifest.hash) {
+    return current;
+  }
+  await writeFileAtomic(
+    manifestPath(),
+    JSON.stringify(manifest, null, 2) + '\n'
+  );
+  return manifest;
+}
+
+let rebuildQueued = false;
+
+/**
+ * Rebuilds the manifest in the background after a change, so the caller
+ * doesn't wait for it. Rebuilds still run one at a time through the lock,
+ * and changes made while one is queued are picked up by that one. A failed
+ * rebuild is logged; the next change or `GET /api/manifest` retries it.
+ */
+export function scheduleManifest(): void {
+  if (rebuildQueued) return;
+  rebuildQueued = true;
+  withManifestLock(() => {
+    rebuildQueued = false;
+    return rebuildManifest();
+  }).catch((err) => {
+    console.error('Manifest rebuild failed:', err);
+  });
+}
@@ -0,0 +1,226 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+import { writeFileAtomic } from './files';
+import { downloadsDir } from './image-metadata';
+import { createLock } from './lock';
+
+/**
+ * 64-bit difference hashes (dHash) for everything in `public/downloads`,
+ * kept in `data/phash-index.json` and refreshed incrementally by mtime/size.
+ * Two images whose hashes differ in only a few bits are near-duplicates.
+ */
+type HashEntry = {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+};
+
+export type HashIndex = Record<string, HashEntry>;
+
+export type DuplicateMatch = {
+  filename: string;
+  distance: number;
+};
+
+export type DuplicatePolicy = 'block' | 'warn' | 'off';
+
+export class DuplicateImageError extends Error {
+  constructor(readonly matches: DuplicateMatch[]) {
+    super(
+      `Image looks like a duplicate of ${matches
+        .map((m) => m.filename)
+        .join(', ')}`
+    );
+    this.name = 'DuplicateImageError';
+  }
+}
+
+const withIndexLock = createLock();
+
+const IMAGE_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'webp', 'avif', 'gif']);
+
+export function hashIndexPath(): string {
+  return path.join(process.cwd(), 'data', 'phash-index.json');
+}
+
+export function duplicatePolicy(): DuplicatePolicy {
+  const value = (process.env.DUPLICATE_POLICY || '').toLowerCase();
+  return value === 'warn' || value === 'off' ? value : 'block';
+}
+
+/** Maximum Hamming distance (out of 64 bits) still treated as a duplicate. */
+export function duplicateThreshold(): number {
+  const value = Number(process.env.DUPLICATE_THRESHOLD);
+  return Number.isFinite(value) && value >= 0 ? value : 6;
+}
+
+/** dHash: compare neighbouring pixels of a 9×8 grayscale thumbnail. */
+export async function computeHash(input: Buffer | string): Promise<string> {
+  const pixels = await sharp(input)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  // Two 32-bit halves, since the target has no BigInt
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    const y = Math.floor(bit / 8);
+    const x = bit % 8;
+    const set = pixels[y * 9 + x]! > pixels[y * 9 + x + 1]! ? 1 : 0;
+    const half = bit < 32 ? 0 : 1;
+    halves[half] = ((halves[half]! << 1) | set) >>> 0;
+  }
+  return halves.map((h) => h.toString(16).padStart(8, '0')).join('');
+}
+
+function popcount32(value: number): number {
+  let v = value >>> 0;
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function splitHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const [aHi, aLo] = splitHash(a);
+  const [bHi, bLo] = splitHash(b);
+  return popcount32(aHi ^ bHi) + popcount32(aLo ^ bLo);
+}
+
+export async function readHashIndex(): Promise<HashIndex> {
+  try {
+    const text = await fs.readFile(hashIndexPath(), 'utf8');
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+async function writeHashIndex(index: HashIndex): Promise<void> {
+  const sorted = Object.fromEntries(
+    Object.entries(index).sort(([a], [b]) => a.localeCompare(b))
+  );
+  await writeFileAtomic(
+    hashIndexPath(),
+    JSON.stringify(sorted, null, 2) + '\n'
+  );
+}
+
+/**
+ * Hashes new or changed files in `public/downloads` and drops entries for
+ * files that no longer exist. Unreadable images are skipped.
+ */
+export function refreshHashIndex(): Promise<HashIndex> {
+  return withIndexLock(async () => {
+    const dir = downloadsDir();
+    const index = await readHashIndex();
+    const entries = await fs
+      .readdir(dir, { withFileTypes: true })
+      .catch(() => []);
+    const present = new Set<string>();
+    let changed = false;
+    for (const entry of entries) {
+      const ext = path.extname(entry.name).slice(1).toLowerCase();
+      if (!entry.isFile() || !IMAGE_EXTENSIONS.has(ext)) continue;
+      present.add(entry.name);
+      const filePath = path.join(dir, entry.name);
+      const stat = await fs.stat(filePath);
+      const known = index[entry.name];
+      if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) {
+        continue;
+      }
+      try {
+        index[entry.name] = {
+          hash: await computeHash(filePath),
+          size: stat.size,
+          mtimeMs: stat.mtimeMs,
+        };
+        changed = true;
+      } catch {
+        // Not decodable; leave it out of the index
+      }
+    }
+    for (const filename of Object.keys(index)) {
+      if (!present.has(filename)) {
+        delete index[filename];
+        changed = true;
+      }
+    }
+    if (changed) await writeHashIndex(index);
+    return index;
+  });
+}
+
+/** Adds or replaces a single file's entry after it has been written. */
+export function recordHash(filename: string, hash: string): Promise<void> {
+  return withIndexLock(async () => {
+    const stat = await fs.stat(path.join(downloadsDir(), filename));
+    const index = await readHashIndex();
+    index[filename] = { hash, size: stat.size, mtimeMs: stat.mtimeMs };
+    await writeHashIndex(index);
+  });
+}
+
+/** Drops a file's entry, e.g. when a failed pick removes its download. */
+export function removeHash(filename: string): Promise<void> {
+  return withIndexLock(async () => {
+    const index = await readHashIndex();
+    if (!(filename in index)) return;
+    delete index[filename];
+    await writeHashIndex(index);
+  });
+}
+
+export function findNearDuplicates(
+  hash: string,
+  index: HashIndex,
+  threshold: number = duplicateThreshold(),
+  exclude: Iterable<string> = []
+): DuplicateMatch[] {
+  const skip = new Set(exclude);
+  const matches: DuplicateMatch[] = [];
+  for (const [filename, entry] of Object.entries(index)) {
+    if (skip.has(filename)) continue;
+    const distance = hammingDistance(hash, entry.hash);
+    if (distance <= threshold) matches.push({ filename, distance });
+  }
+  return matches.sort((a, b) => a.distance - b.distance);
+}
+
+/** Groups of two or more files whose hashes are within `threshold`. */
+export function duplicateClusters(
+  index: HashIndex,
+  threshold: number = duplicateThreshold()
+): string[][] {
+  const files = Object.keys(index).sort();
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+  const hashes = files.map((f) => splitHash(index[f]!.hash));
+  for (let i = 0; i < files.length; i++) {
+    const [hi, lo] = hashes[i]!;
+    for (let j = i + 1; j < files.length; j++) {
+      const [otherHi, otherLo] = hashes[j]!;
+      const distance = popcount32(hi ^ otherHi) + popcount32(lo ^ otherLo);
+      if (distance <= threshold) parent[find(j)] = find(i);
+    }
+  }
+  const groups = new Map<number, string[]>();
+  files.forEach((file, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), file]);
+  });
+  return Array.from(groups.values()).filter((g) => g.length > 1);
+}
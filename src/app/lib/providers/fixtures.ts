@@ -0,0 +1,66 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { foldText } from "../text";
+import { ImageProvider, ProviderError } from "./types";
+
+/**
+ * When set, remote providers replay recorded API responses from
+ * `<IMAGE_FIXTURES_DIR>/<provider>/` instead of calling the network.
+ */
+export function fixturesDir(): string | null {
+  const dir = process.env.IMAGE_FIXTURES_DIR;
+  return dir ? path.resolve(dir) : null;
+}
+
+function fixtureSlug(query: string): string {
+  return foldText(query)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Candidate fixture files for a search, most specific first:
+ * `<query>-<page>.json`, `<query>.json`, then `default.json`.
+ */
+function fixtureCandidates(
+  dir: string,
+  providerId: string,
+  query: string,
+  page: number
+): string[] {
+  const base = path.join(dir, providerId);
+  const slug = fixtureSlug(query);
+  return [
+    path.join(base, `${slug}-${page}.json`),
+    path.join(base, `${slug}.json`),
+    path.join(base, "default.json"),
+  ];
+}
+
+/** Wraps a provider so `search` reads a recorded response from disk. */
+export function withFixtures<Raw>(
+  provider: ImageProvider<Raw>,
+  dir: string
+): ImageProvider<Raw> {
+  return {
+    ...provider,
+    // Recorded responses are already on disk
+    cacheable: false,
+    isConfigured() {
+      return true;
+    },
+    async search({ query, page }) {
+      for (const file of fixtureCandidates(dir, provider.id, query, page)) {
+        try {
+          return JSON.parse(await fsp.readFile(file, "utf8")) as Raw;
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+        }
+      }
+      throw new ProviderError(
+        `No ${provider.label} fixture for "${query}"`,
+        404
+      );
+    },
+  };
+}
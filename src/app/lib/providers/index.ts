@@ -0,0 +1,68 @@
+import { fixturesDir, withFixtures } from "./fixtures";
+import { local } from "./local";
+import { pexels } from "./pexels";
+import { pixabay } from "./pixabay";
+import { rateLimitStatus } from "./rate-limit";
+import { unsplash } from "./unsplash";
+import { ImageProvider, ProviderError, ProviderInfo } from "./types";
+
+export * from "./types";
+export { assertWithinRateLimit } from "./rate-limit";
+
+export const DEFAULT_PROVIDER_ID = "pixabay";
+
+// Registration order is the order shown in the picker's source dropdown.
+const providers = new Map<string, ImageProvider>();
+
+export function registerProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+const fixtures = fixturesDir();
+for (const remote of [pixabay, unsplash, pexels] as ImageProvider[]) {
+  registerProvider(fixtures ? withFixtures(remote, fixtures) : remote);
+}
+registerProvider(local);
+
+export function getProvider(id: string): ImageProvider | undefined {
+  return providers.get(id.toLowerCase());
+}
+
+export function listProviders(): ImageProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Providers named by a `source` parameter: a single id, a comma-separated
+ * list, or `all` for every configured provider.
+ */
+export function selectProviders(source: string): ImageProvider[] {
+  const spec = source.trim().toLowerCase();
+  const selected =
+    spec === "all"
+      ? listProviders().filter((p) => p.isConfigured())
+      : spec
+          .split(",")
+          .map((s) => s.trim())
+          .filter(Boolean)
+          .map((id) => {
+            const provider = getProvider(id);
+            if (!provider)
+              throw new ProviderError(`Unknown source: ${id}`, 400);
+            return provider;
+          });
+  if (selected.length === 0) {
+    throw new ProviderError("No configured source to search", 400);
+  }
+  return selected;
+}
+
+export function describeProvider(provider: ImageProvider): ProviderInfo {
+  return {
+    id: provider.id,
+    label: provider.label,
+    configured: provider.isConfigured(),
+    attribution: provider.attribution,
+    rateLimit: rateLimitStatus(provider.id),
+  };
+}
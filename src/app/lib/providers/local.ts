@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { tokenize } from "../text";
+import { ImageHit, ImageProvider, ProviderError } from "./types";
+
+/** Route that serves files from the local image directory. */
+export const LOCAL_IMAGE_ROUTE = "/api/local-images/";
+
+const IMAGE_EXTENSIONS = new Set(["jpg", "jpeg", "png", "webp", "gif", "avif"]);
+
+/**
+ * Optional `tags.json` next to the images, keyed by filename:
+ * `{ "rome-colosseum.jpg": { "tags": ["rome", "italy"], "width": 1920 } }`
+ */
+type SidecarEntry = {
+  tags?: string[] | string;
+  width?: number;
+  height?: number;
+  author?: string;
+  authorURL?: string;
+  pageURL?: string;
+  license?: string;
+};
+
+type LocalImage = Omit<SidecarEntry, "tags"> & {
+  filename: string;
+  tags: string[];
+};
+
+type LocalSearchResult = { images: LocalImage[]; total: number };
+
+/**
+ * The directory set by `LOCAL_IMAGES_DIR`, or null. There is no default, so
+ * the local source only joins `all` and auto-pick's sources when opted into.
+ */
+export function localImagesDir(): string | null {
+  const dir = process.env.LOCAL_IMAGES_DIR;
+  return dir ? path.resolve(dir) : null;
+}
+
+async function readSidecar(dir: string): Promise<Record<string, SidecarEntry>> {
+  try {
+    const text = await fsp.readFile(path.join(dir, "tags.json"), "utf8");
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function listLocalImages(dir: string): Promise<LocalImage[]> {
+  const [entries, sidecar] = await Promise.all([
+    fsp.readdir(dir, { withFileTypes: true }),
+    readSidecar(dir),
+  ]);
+  return entries
+    .filter((e) => e.isFile())
+    .map((e) => e.name)
+    .filter((name) =>
+      IMAGE_EXTENSIONS.has(path.extname(name).slice(1).toLowerCase())
+    )
+    .sort()
+    .map((filename) => {
+      const meta = sidecar[filename] ?? {};
+      const extraTags = Array.isArray(meta.tags)
+        ? meta.tags
+        : meta.tags
+          ? meta.tags.split(",")
+          : [];
+      return {
+        ...meta,
+        filename,
+        tags: extraTags.map((t) => t.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Resolves a URL produced by this provider back to a file on disk, or null
+ * when the URL is not a local image (or tries to escape the directory).
+ */
+export function resolveLocalImagePath(url: string): string | null {
+  if (!url.startsWith(LOCAL_IMAGE_ROUTE)) return null;
+  const name = decodeURIComponent(url.slice(LOCAL_IMAGE_ROUTE.length));
+  const dir = localImagesDir();
+  if (!dir) return null;
+  const filePath = path.resolve(dir, name);
+  if (path.dirname(filePath) !== dir) return null;
+  return filePath;
+}
+
+export const local: ImageProvider<LocalSearchResult> = {
+  id: "local",
+  label: "Local files",
+  attribution: {
+    name: "Local library",
+    url: "",
+    required: false,
+    license: "Unknown",
+  },
+  isConfigured() {
+    const dir = localImagesDir();
+    return dir !== null && fs.existsSync(dir);
+  },
+  async search({ query, page, perPage }) {
+    const dir = localImagesDir();
+    if (!dir) {
+      throw new ProviderError("Local image directory not configured", 500);
+    }
+    if (!fs.existsSync(dir)) {
+      throw new ProviderError("Local image directory not found", 500);
+    }
+    const terms = tokenize(query);
+    const scored = (await listLocalImages(dir))
+      .map((image) => {
+        const haystack = new Set([
+          ...tokenize(path.parse(image.filename).name),
+          ...image.tags.flatMap(tokenize),
+        ]);
+        const score = terms.filter((t) => haystack.has(t)).length;
+        return { image, score };
+      })
+      .filter(({ score }) => terms.length === 0 || score > 0)
+      .sort((a, b) => b.score - a.score);
+    const start = (page - 1) * perPage;
+    return {
+      images: scored.slice(start, start + perPage).map(({ image }) => image),
+      total: scored.length,
+    };
+  },
+  normalize(data) {
+    const hits: ImageHit[] = data.images.map((image) => {
+      const url = LOCAL_IMAGE_ROUTE + encodeURIComponent(image.filename);
+      return {
+        id: path.parse(image.filename).name,
+        tags: image.tags.join(", ") || image.filename,
+        previewURL: url,
+        webformatURL: url,
+        largeImageURL: url,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        author: image.author,
+        authorURL: image.authorURL,
+        pageURL: image.pageURL,
+        license: image.license || local.attribution.license,
+      };
+    });
+    return { total: data.total, totalHits: data.total, hits };
+  },
+};
@@ -0,0 +1,80 @@
+import { checkResponse } from "./rate-limit";
+import { ImageProvider, ProviderError } from "./types";
+
+type PexelsPhoto = {
+  id: number;
+  width?: number;
+  height?: number;
+  alt?: string;
+  url?: string;
+  photographer?: string;
+  photographer_url?: string;
+  src?: {
+    tiny?: string;
+    small?: string;
+    medium?: string;
+    large?: string;
+    large2x?: string;
+    original?: string;
+  };
+};
+
+type PexelsApiResponse = {
+  total_results?: number;
+  photos?: PexelsPhoto[];
+};
+
+export const pexels: ImageProvider<PexelsApiResponse> = {
+  id: "pexels",
+  label: "Pexels",
+  attribution: {
+    name: "Pexels",
+    url: "https://www.pexels.com",
+    required: true,
+    license: "Pexels License",
+    licenseURL: "https://www.pexels.com/license/",
+  },
+  cacheable: true,
+  isConfigured() {
+    return Boolean(process.env.PEXELS_API_KEY);
+  },
+  async search({ query, page, perPage }) {
+    const auth = process.env.PEXELS_API_KEY;
+    if (!auth) {
+      throw new ProviderError("Pexels API key not configured", 500);
+    }
+    const apiUrl = new URL("https://api.pexels.com/v1/search");
+    apiUrl.searchParams.set("query", `${query}`);
+    apiUrl.searchParams.set("per_page", String(perPage));
+    apiUrl.searchParams.set("page", String(page));
+
+    const res = await fetch(apiUrl.toString(), {
+      headers: { Authorization: auth },
+      next: { revalidate: 0 },
+    });
+    checkResponse(res, pexels);
+    return res.json();
+  },
+  normalize(data) {
+    const photos = Array.isArray(data?.photos) ? data.photos! : [];
+    const hits = photos.map((p) => ({
+      id: String(p.id),
+      tags: p.alt || "photo",
+      previewURL: p.src?.tiny || p.src?.small || "",
+      webformatURL: p.src?.medium || p.src?.large || "",
+      largeImageURL: p.src?.large2x || p.src?.original || p.src?.large || "",
+      imageWidth: p.width,
+      imageHeight: p.height,
+      author: p.photographer,
+      authorURL: p.photographer_url,
+      pageURL: p.url,
+      license: pexels.attribution.license,
+      licenseURL: pexels.attribution.licenseURL,
+    }));
+    return {
+      total: data?.total_results ?? 0,
+      totalHits: data?.total_results ?? 0,
+      hits,
+    };
+  },
+};
@@ -0,0 +1,83 @@
+import { checkResponse } from "./rate-limit";
+import { ImageProvider } from "./types";
+
+type PixabayHit = {
+  id: number;
+  tags: string;
+  previewURL: string;
+  webformatURL: string;
+  largeImageURL: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  pageURL?: string;
+  user?: string;
+  user_id?: number;
+};
+
+type PixabayApiResponse = {
+  total?: number;
+  totalHits?: number;
+  hits?: PixabayHit[];
+};
+
+function apiKey(): string {
+  return process.env.PIXABAY_KEY || "52178983-3a234cae41feb4b22280b11e3";
+}
+
+export const pixabay: ImageProvider<PixabayApiResponse> = {
+  id: "pixabay",
+  label: "Pixabay",
+  attribution: {
+    name: "Pixabay",
+    url: "https://pixabay.com",
+    required: false,
+    license: "Pixabay Content License",
+    licenseURL: "https://pixabay.com/service/license-summary/",
+  },
+  cacheable: true,
+  // 100 requests per 60 seconds
+  rateLimitWindowMs: 60 * 1000,
+  isConfigured() {
+    return Boolean(apiKey());
+  },
+  async search({ query, page, perPage }) {
+    const apiUrl = new URL("https://pixabay.com/api/");
+    apiUrl.searchParams.set("key", apiKey());
+    apiUrl.searchParams.set("q", query);
+    // apiUrl.searchParams.set('image_type', 'photo');
+    // apiUrl.searchParams.set('orientation', 'horizontal');
+    // apiUrl.searchParams.set('safesearch', 'true');
+    apiUrl.searchParams.set("per_page", String(perPage));
+    apiUrl.searchParams.set("page", String(page));
+
+    const res = await fetch(apiUrl.toString(), { next: { revalidate: 0 } });
+    checkResponse(res, pixabay);
+    return res.json();
+  },
+  normalize(data) {
+    const hits = Array.isArray(data?.hits)
+      ? data.hits!.map((h) => ({
+          id: String(h.id),
+          tags: h.tags,
+          previewURL: h.previewURL,
+          webformatURL: h.webformatURL,
+          largeImageURL: h.largeImageURL,
+          imageWidth: h.imageWidth,
+          imageHeight: h.imageHeight,
+          author: h.user,
+          authorURL:
+            h.user && h.user_id
+              ? `https://pixabay.com/users/${h.user}-${h.user_id}/`
+              : undefined,
+          pageURL: h.pageURL,
+          license: pixabay.attribution.license,
+          licenseURL: pixabay.attribution.licenseURL,
+        }))
+      : [];
+    return {
+      total: data?.total ?? 0,
+      totalHits: data?.totalHits ?? 0,
+      hits,
+    };
+  },
+};
@@ -0,0 +1,87 @@
+import {
+  ImageProvider,
+  ProviderError,
+  RateLimitError,
+  RateLimitInfo,
+} from "./types";
+
+/**
+ * Tracks the quota each remote provider reports. Pixabay sends
+ * `X-RateLimit-Reset` as seconds until the window resets, Pexels as a Unix
+ * timestamp; Unsplash only sends the limit and what is left of it.
+ */
+const latest = new Map<string, RateLimitInfo>();
+
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+
+function headerNumber(res: Response, name: string): number | undefined {
+  const value = res.headers.get(name);
+  if (value === null || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function readRateLimit(res: Response): RateLimitInfo {
+  const info: RateLimitInfo = {
+    limit: headerNumber(res, "x-ratelimit-limit"),
+    remaining: headerNumber(res, "x-ratelimit-remaining"),
+  };
+  const reset = headerNumber(res, "x-ratelimit-reset");
+  const retryAfter = headerNumber(res, "retry-after");
+  // Anything this large is a timestamp rather than a number of seconds
+  const resetMs =
+    reset === undefined
+      ? retryAfter === undefined
+        ? undefined
+        : Date.now() + retryAfter * 1000
+      : reset > 1e9
+        ? reset * 1000
+        : Date.now() + reset * 1000;
+  if (resetMs !== undefined) info.resetAt = new Date(resetMs).toISOString();
+  return info;
+}
+
+export function rateLimitStatus(providerId: string): RateLimitInfo | undefined {
+  return latest.get(providerId);
+}
+
+/**
+ * Throws without calling the provider when its last response said the quota
+ * is spent and the window hasn't reset yet.
+ */
+export function assertWithinRateLimit(provider: ImageProvider): void {
+  const info = latest.get(provider.id);
+  if (info?.remaining !== 0) return;
+  if (info.resetAt && Date.parse(info.resetAt) <= Date.now()) return;
+  throw new RateLimitError(provider.id, provider.label, info);
+}
+
+/**
+ * Records the quota headers of a provider response and turns failures into
+ * errors: 429 (and Unsplash's 403 once the quota is used up) become a
+ * `RateLimitError`, anything else non-2xx a 502. A spent quota without a
+ * reset time is assumed to reset one window later, or the provider would
+ * stay blocked with nothing left to unblock it.
+ */
+export function checkResponse(
+  res: Response,
+  provider: Pick<ImageProvider, "id" | "label" | "rateLimitWindowMs">
+): void {
+  const info = readRateLimit(res);
+  const spent = info.remaining === 0 || res.status === 429;
+  if (spent && !info.resetAt) {
+    const windowMs = provider.rateLimitWindowMs ?? DEFAULT_WINDOW_MS;
+    info.resetAt = new Date(Date.now() + windowMs).toISOString();
+  }
+  if (info.limit !== undefined || info.remaining !== undefined) {
+    latest.set(provider.id, info);
+  }
+  if (res.status === 429 || (res.status === 403 && info.remaining === 0)) {
+    const limited = { ...info, remaining: 0 };
+    latest.set(provider.id, limited);
+    throw new RateLimitError(provider.id, provider.label, limited);
+  }
+  if (!res.ok) {
+    throw new ProviderError(`Failed to fetch from ${provider.label}`, 502);
+  }
+}
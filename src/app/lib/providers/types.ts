@@ -0,0 +1,111 @@
+/**
+ * Shape every provider normalizes into. It started life as the Pixabay hit
+ * format, which is why the URL field names follow Pixabay's API.
+ */
+export type ImageHit = {
+  id: string;
+  tags: string;
+  previewURL: string;
+  webformatURL: string;
+  largeImageURL: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  /** Photographer or uploader credited for the image. */
+  author?: string;
+  authorURL?: string;
+  /** Page on the provider's site the image came from. */
+  pageURL?: string;
+  license?: string;
+  licenseURL?: string;
+  /** Id of the provider the hit came from. */
+  source?: string;
+};
+
+export type SearchResponse = {
+  total: number;
+  totalHits: number;
+  hits: ImageHit[];
+};
+
+export type SearchParams = {
+  query: string;
+  page: number;
+  perPage: number;
+};
+
+export type ProviderAttribution = {
+  /** Display name used when crediting the source. */
+  name: string;
+  /** Link back to the provider, as required by most API terms. */
+  url: string;
+  /** Whether the provider's terms require crediting the photographer. */
+  required: boolean;
+  license: string;
+  licenseURL?: string;
+};
+
+export interface ImageProvider<Raw = unknown> {
+  id: string;
+  label: string;
+  attribution: ProviderAttribution;
+  /** True when the credentials this provider needs are available. */
+  isConfigured(): boolean;
+  /** Calls the upstream API and returns its raw JSON body. */
+  search(params: SearchParams): Promise<Raw>;
+  /** Maps a raw API body into the shared response shape. */
+  normalize(raw: Raw): SearchResponse;
+  /** Whether normalized responses may be served from the search cache. */
+  cacheable?: boolean;
+  /**
+   * Length of the quota window in ms, assumed when the provider says the
+   * quota is spent without saying when it resets (default an hour).
+   */
+  rateLimitWindowMs?: number;
+}
+
+/** Quota state reported by a provider's `X-Ratelimit-*` headers. */
+export type RateLimitInfo = {
+  limit?: number;
+  remaining?: number;
+  /** When the current window resets (ISO time), if known. */
+  resetAt?: string;
+};
+
+/** Public description of a provider, as served by `/api/providers`. */
+export type ProviderInfo = {
+  id: string;
+  label: string;
+  configured: boolean;
+  attribution: ProviderAttribution;
+  /** Quota seen on the most recent response from this provider. */
+  rateLimit?: RateLimitInfo;
+};
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/** The provider refused a request because its quota is used up. */
+export class RateLimitError extends ProviderError {
+  constructor(
+    readonly provider: string,
+    label: string,
+    readonly rateLimit: RateLimitInfo
+  ) {
+    super(`${label} rate limit reached`, 429);
+    this.name = "RateLimitError";
+  }
+
+  /** Seconds until the quota resets, when the provider said. */
+  get retryAfter(): number | undefined {
+    if (!this.rateLimit.resetAt) return undefined;
+    const ms = Date.parse(this.rateLimit.resetAt) - Date.now();
+    return Math.max(Math.ceil(ms / 1000), 0);
+  }
+}
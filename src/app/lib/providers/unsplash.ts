@@ -0,0 +1,110 @@
+import { processingConfig } from "../image-processing";
+import { qualityRules } from "../quality";
+import { checkResponse } from "./rate-limit";
+import { ImageProvider, ProviderError } from "./types";
+
+type UnsplashPhoto = {
+  id: string;
+  alt_description?: string;
+  description?: string;
+  urls?: {
+    raw?: string;
+    thumb?: string;
+    small?: string;
+    regular?: string;
+    full?: string;
+  };
+  width?: number;
+  height?: number;
+  links?: { html?: string };
+  user?: { name?: string; links?: { html?: string } };
+};
+
+type UnsplashApiResponse = { total?: number; results?: UnsplashPhoto[] };
+
+/**
+ * `urls.regular` is only 1080px wide, below the default quality minimum, so
+ * the download is resized from `urls.raw` instead: wide enough for the
+ * quality rules and the largest variant, but never past the original.
+ */
+function downloadUrl(photo: UnsplashPhoto): string {
+  const raw = photo.urls?.raw;
+  if (!raw) return photo.urls?.full || photo.urls?.regular || "";
+  const { minWidth, minHeight } = qualityRules();
+  const ratio =
+    photo.width && photo.height ? photo.width / photo.height : 16 / 9;
+  const width = Math.ceil(
+    Math.max(minWidth, minHeight * ratio, ...processingConfig().widths)
+  );
+  const url = new URL(raw);
+  url.searchParams.set("w", String(width));
+  url.searchParams.set("fit", "max");
+  url.searchParams.set("fm", "jpg");
+  url.searchParams.set("q", "85");
+  return url.toString();
+}
+
+export const unsplash: ImageProvider<UnsplashApiResponse> = {
+  id: "unsplash",
+  label: "Unsplash",
+  attribution: {
+    name: "Unsplash",
+    url: "https://unsplash.com",
+    required: true,
+    license: "Unsplash License",
+    licenseURL: "https://unsplash.com/license",
+  },
+  cacheable: true,
+  // Demo apps get 50 requests an hour
+  rateLimitWindowMs: 60 * 60 * 1000,
+  isConfigured() {
+    // Avoid embedding secrets in code
+    return Boolean(process.env.UNSPLASH_ACCESS_KEY);
+  },
+  async search({ query, page, perPage }) {
+    const accessKey = process.env.UNSPLASH_ACCESS_KEY;
+    if (!accessKey) {
+      throw new ProviderError("Unsplash access key not configured", 500);
+    }
+    const apiUrl = new URL("https://api.unsplash.com/search/photos");
+    apiUrl.searchParams.set("query", query);
+    apiUrl.searchParams.set("page", String(page));
+    apiUrl.searchParams.set("per_page", String(perPage));
+    apiUrl.searchParams.set("orientation", "landscape");
+    apiUrl.searchParams.set("content_filter", "high");
+
+    const res = await fetch(apiUrl.toString(), {
+      headers: {
+        Authorization: `Client-ID ${accessKey}`,
+        "Accept-Version": "v1",
+      },
+      next: { revalidate: 0 },
+    });
+    checkResponse(res, unsplash);
+    return res.json();
+  },
+  normalize(data) {
+    const results: UnsplashPhoto[] = Array.isArray(data?.results)
+      ? data.results!
+      : [];
+    const hits = results.map((r) => ({
+      id: String(r.id),
+      tags: r.alt_description || r.description || "photo",
+      previewURL: r.urls?.thumb || "",
+      webformatURL: r.urls?.small || "",
+      largeImageURL: downloadUrl(r),
+      imageWidth: r.width,
+      imageHeight: r.height,
+      author: r.user?.name,
+      authorURL: r.user?.links?.html,
+      pageURL: r.links?.html,
+      license: unsplash.attribution.license,
+      licenseURL: unsplash.attribution.licenseURL,
+    }));
+    return {
+      total: data?.total ?? 0,
+      totalHits: data?.total ?? 0,
+      hits,
+    };
+  },
+};
@@ -0,0 +1,142 @@
+import sharp from 'sharp';
+import { processingConfig } from './image-processing';
+import type { ImageHit } from './providers';
+
+/**
+ * Acceptance rules every pick has to pass. Search results are checked
+ * against their reported dimensions so the picker can flag them up front;
+ * the downloaded file is checked again (with its real size) before it is
+ * saved.
+ */
+export type Orientation = 'landscape' | 'portrait' | 'square';
+
+export type QualityRules = {
+  minWidth: number;
+  minHeight: number;
+  orientations: Orientation[];
+  /**
+   * Largest relative difference between the image's aspect ratio and the
+   * ratio variants are cropped to (`IMAGE_ASPECT_RATIO`), e.g. 0.5.
+   */
+  maxAspectDeviation: number;
+  minBytes: number;
+};
+
+export type QualityReport = {
+  accepted: boolean;
+  /** Why the image was rejected; empty when accepted. */
+  reasons: string[];
+};
+
+export class QualityError extends Error {
+  constructor(readonly reasons: string[]) {
+    super(`Image rejected: ${reasons.join('; ')}`);
+    this.name = 'QualityError';
+  }
+}
+
+const ORIENTATIONS: Orientation[] = ['landscape', 'portrait', 'square'];
+
+// Ratios within this much of 1:1 count as square
+const SQUARE_TOLERANCE = 0.05;
+
+function nonNegative(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(n) && n >= 0
+    ? n
+    : fallback;
+}
+
+export function qualityRules(): QualityRules {
+  const orientations = (process.env.QUALITY_ORIENTATIONS || '')
+    .split(',')
+    .map((o) => o.trim().toLowerCase())
+    .filter((o): o is Orientation => (ORIENTATIONS as string[]).includes(o));
+  return {
+    minWidth: nonNegative(process.env.QUALITY_MIN_WIDTH, 1280),
+    minHeight: nonNegative(process.env.QUALITY_MIN_HEIGHT, 720),
+    orientations:
+      orientations.length > 0 ? orientations : ['landscape', 'square'],
+    maxAspectDeviation: nonNegative(
+      process.env.QUALITY_MAX_ASPECT_DEVIATION,
+      0.5
+    ),
+    minBytes: nonNegative(process.env.QUALITY_MIN_BYTES, 50 * 1024),
+  };
+}
+
+export function orientationOf(width: number, height: number): Orientation {
+  const ratio = width / height;
+  if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return 'square';
+  return ratio > 1 ? 'landscape' : 'portrait';
+}
+
+/** Checks what is known about an image; unknown values are not held against it. */
+export function assessQuality(
+  image: { width?: number; height?: number; bytes?: number },
+  rules: QualityRules = qualityRules()
+): QualityReport {
+  const { width, height, bytes } = image;
+  const reasons: string[] = [];
+  if (width && height) {
+    if (width < rules.minWidth || height < rules.minHeight) {
+      reasons.push(
+        `${width}×${height} is smaller than ${rules.minWidth}×${rules.minHeight}`
+      );
+    }
+    const orientation = orientationOf(width, height);
+    if (!rules.orientations.includes(orientation)) {
+      reasons.push(`${orientation} orientation`);
+    }
+    const target = processingConfig().aspectRatio;
+    const deviation = Math.abs(width / height - target) / target;
+    if (deviation > rules.maxAspectDeviation) {
+      reasons.push(
+        `aspect ratio ${(width / height).toFixed(2)} is ${Math.round(
+          deviation * 100
+        )}% off ${target.toFixed(2)}`
+      );
+    }
+  }
+  if (bytes !== undefined && bytes < rules.minBytes) {
+    reasons.push(
+      `file is ${Math.round(bytes / 1024)} KB (minimum ${Math.round(
+        rules.minBytes / 1024
+      )} KB)`
+    );
+  }
+  return { accepted: reasons.length === 0, reasons };
+}
+
+/** Adds each hit's verdict, judged on the dimensions its source reports. */
+export function withQuality<T extends ImageHit>(
+  hits: T[],
+  rules: QualityRules = qualityRules()
+): (T & { quality: QualityReport })[] {
+  return hits.map((hit) => ({
+    ...hit,
+    quality: assessQuality(
+      { width: hit.imageWidth, height: hit.imageHeight },
+      rules
+    ),
+  }));
+}
+
+/** Checks a downloaded file, using its EXIF-oriented dimensions. */
+export async function assertImageQuality(
+  data: Buffer,
+  rules: QualityRules = qualityRules()
+): Promise<void> {
+  const meta = await sharp(data).metadata();
+  // Orientations 5–8 are rotated by 90°
+  const rotated = (meta.orientation ?? 1) >= 5;
+  const report = assessQuality(
+    {
+      width: rotated ? meta.height : meta.width,
+      height: rotated ? meta.width : meta.height,
+      bytes: data.length,
+    },
+    rules
+  );
+  if (!report.accepted) throw new QualityError(report.reasons);
+}
@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Builds provider search queries from a location's city, country and type.
+ *
+ * Queries are tried in order, most specific first, until one returns at
+ * least `minResults` hits. Each fallback step searches a base (by default
+ * city + country, then each of the location's aliases on its own, then the
+ * country alone) first with each term for the location type, then bare.
+ * `data/query-strategy.json` overrides any of the defaults.
+ */
+export type QueryStrategy = {
+  /** Extra search terms per location type (matched case-insensitively). */
+  typeTerms: Record<string, string[]>;
+  /** Bases to search, in order. */
+  fallback: FallbackStep[];
+  /** Fall back to the next query when fewer hits than this come back. */
+  minResults: number;
+};
+
+/**
+ * `place` is city + country, `city` the city alone, `aliases` each alias on
+ * its own and `country` the country alone.
+ */
+export const FALLBACK_STEPS = ['place', 'city', 'aliases', 'country'] as const;
+
+export type FallbackStep = (typeof FALLBACK_STEPS)[number];
+
+export type QueryLocation = {
+  city: string;
+  country: string;
+  type?: string;
+  /** Other names for the city, e.g. in the local language. */
+  aliases?: { name: string }[];
+};
+
+export const DEFAULT_QUERY_STRATEGY: QueryStrategy = {
+  typeTerms: {
+    island: ['beach', 'coast'],
+    city: ['cityscape'],
+  },
+  // Alias alone: a local name rarely shares tags with an English country
+  fallback: ['place', 'aliases', 'country'],
+  minResults: 6,
+};
+
+export function queryStrategyPath(): string {
+  return path.join(process.cwd(), 'data', 'query-strategy.json');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isFallbackStep(value: unknown): value is FallbackStep {
+  return FALLBACK_STEPS.includes(value as FallbackStep);
+}
+
+/**
+ * The parts of the strategy set in `data/query-strategy.json`, e.g.
+ * `{ "typeTerms": { "island": ["beach"] }, "fallback": ["place", "country"] }`.
+ * A missing file means no overrides; a malformed one is an error rather
+ * than being silently ignored.
+ */
+function readStrategyFile(): Partial<QueryStrategy> {
+  const filePath = queryStrategyPath();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new Error(`Invalid ${filePath}: ${(err as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${filePath}: expected an object`);
+  }
+  const { typeTerms, fallback, minResults } = parsed as Record<string, unknown>;
+  const overrides: Partial<QueryStrategy> = {};
+  if (typeTerms !== undefined) {
+    if (
+      !typeTerms ||
+      typeof typeTerms !== 'object' ||
+      !Object.values(typeTerms).every(isStringArray)
+    ) {
+      throw new Error(
+        `Invalid ${filePath}: typeTerms must map types to lists of terms`
+      );
+    }
+    overrides.typeTerms = Object.fromEntries(
+      Object.entries(typeTerms as Record<string, string[]>).map(
+        ([type, terms]) => [type.trim().toLowerCase(), terms]
+      )
+    );
+  }
+  if (fallback !== undefined) {
+    if (!Array.isArray(fallback) || !fallback.every(isFallbackStep)) {
+      throw new Error(
+        `Invalid ${filePath}: fallback must list steps from ${FALLBACK_STEPS.join(', ')}`
+      );
+    }
+    overrides.fallback = fallback;
+  }
+  if (minResults !== undefined) {
+    if (typeof minResults !== 'number' || !(minResults >= 0)) {
+      throw new Error(`Invalid ${filePath}: minResults must be 0 or more`);
+    }
+    overrides.minResults = minResults;
+  }
+  return overrides;
+}
+
+/**
+ * The defaults, overridden by `data/query-strategy.json` and then by
+ * `QUERY_MIN_RESULTS`. Read on every call, so edits apply without a
+ * restart.
+ */
+export function queryStrategy(): QueryStrategy {
+  const strategy = { ...DEFAULT_QUERY_STRATEGY, ...readStrategyFile() };
+  const minResults = Number(process.env.QUERY_MIN_RESULTS);
+  if (
+    process.env.QUERY_MIN_RESULTS &&
+    Number.isFinite(minResults) &&
+    minResults >= 0
+  ) {
+    strategy.minResults = minResults;
+  }
+  return strategy;
+}
+
+/** `"France (Corsica)"` → `"France"`, `"Hawaii, United States"` → `"Hawaii United States"`. */
+export function cleanPlaceName(name: string): string {
+  return name
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[,;/]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Ordered, de-duplicated queries to try for a location. */
+export function buildQueries(
+  location: QueryLocation,
+  strategy: QueryStrategy = DEFAULT_QUERY_STRATEGY
+): string[] {
+  const city = cleanPlaceName(location.city);
+  const country = cleanPlaceName(location.country);
+  const typeKey = (location.type || '').trim().toLowerCase();
+  const terms = Object.hasOwn(strategy.typeTerms, typeKey)
+    ? strategy.typeTerms[typeKey]!
+    : [];
+
+  const bases = strategy.fallback.flatMap((step) => {
+    switch (step) {
+      case 'place':
+        return [[city, country].filter(Boolean).join(' ')];
+      case 'city':
+        return [city];
+      case 'aliases':
+        return (location.aliases ?? []).map((alias) =>
+          cleanPlaceName(alias.name)
+        );
+      case 'country':
+        return [country];
+    }
+  });
+  const queries: string[] = [];
+  for (const base of bases) {
+    if (!base) continue;
+    for (const term of terms) queries.push(`${base} ${term}`);
+    queries.push(base);
+  }
+  return Array.from(new Set(queries));
+}
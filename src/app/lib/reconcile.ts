@@ -0,0 +1,310 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  deleteImageMetadata,
+  downloadsDir,
+  renameImageMetadata,
+} from './image-metadata';
+import { readFilenameHistory } from './history';
+import { removeVariants, renameVariants } from './image-processing';
+import {
+  loadFilenameCells,
+  loadRoleImages,
+  renameRoleImages,
+  rewriteFilenameCells,
+} from './locations';
+import { placeSlug } from './slug';
+
+/**
+ * Cross-checks the filenames in the CSV (and the locations' thumbnail and
+ * gallery images) against `public/downloads`.
+ *
+ * - missing: the CSV names a file that isn't on disk. When a file differing
+ *   only in case exists, it is offered as the fix (for CSV cells only).
+ * - untrimmed: the cell has stray whitespace around the filename.
+ * - nonConforming: the filename doesn't follow `<city>-<country>-<id>.<ext>`
+ *   as produced by `placeSlug`; a conforming name is suggested.
+ * - orphans: files on disk no location references, not even as a filename
+ *   that Revert or undo could bring back.
+ */
+export type RowRef = { city: string; country: string };
+
+export type MissingFile = RowRef & { filename: string; suggestion?: string };
+export type UntrimmedCell = RowRef & { raw: string; filename: string };
+export type NonConformingFile = RowRef & {
+  filename: string;
+  suggestion: string;
+};
+
+export type ReconcileReport = {
+  scannedRows: number;
+  scannedFiles: number;
+  missing: MissingFile[];
+  untrimmed: UntrimmedCell[];
+  nonConforming: NonConformingFile[];
+  orphans: string[];
+};
+
+export type ReconcileFix = 'normalize' | 'rename' | 'delete-orphans';
+
+export const RECONCILE_FIXES: ReconcileFix[] = [
+  'normalize',
+  'rename',
+  'delete-orphans',
+];
+
+export type ReconcileChange = {
+  action: 'update-cell' | 'rename-file' | 'delete-file';
+  from: string;
+  to?: string;
+  rows?: RowRef[];
+  /** Why a planned change was not carried out. */
+  skipped?: string;
+};
+
+export type ReconcileResult = {
+  fix: ReconcileFix;
+  /** False for a dry run: `changes` lists what would happen. */
+  applied: boolean;
+  changes: ReconcileChange[];
+};
+
+async function listDownloads(): Promise<string[]> {
+  const entries = await fs
+    .readdir(downloadsDir(), { withFileTypes: true })
+    .catch(() => []);
+  return entries
+    .filter((e) => e.isFile() && !e.name.startsWith('.'))
+    .map((e) => e.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+function expectedPrefix(row: RowRef): string {
+  return `${placeSlug(row.city, row.country)}-`;
+}
+
+/**
+ * Words of a name as slugged before transliteration, when letters outside
+ * ASCII were dropped (`"Sumqayıt"` → `"sumqayt"`).
+ */
+function legacySlugWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .split(/[\s_-]+/);
+}
+
+/**
+ * Conforming name for a file. Leading words that repeat the city or country
+ * (in any case, or as older downloads slugged them) are dropped; whatever
+ * follows is kept as the id.
+ */
+function conformingName(row: RowRef, filename: string): string {
+  const ext = path.extname(filename).toLowerCase() || '.jpg';
+  const stem = path.basename(filename, path.extname(filename));
+  const placeWords = new Set([
+    ...placeSlug(row.city, row.country).split('-'),
+    ...legacySlugWords(row.city),
+    ...legacySlugWords(row.country),
+  ]);
+  const parts = stem.split('-');
+  while (parts.length > 1 && placeWords.has(parts[0]!.toLowerCase())) {
+    parts.shift();
+  }
+  const safeId = parts.join('-').replace(/[^a-zA-Z0-9_-]/g, '');
+  return `${expectedPrefix(row)}${safeId || 'image'}${ext}`;
+}
+
+function isConforming(row: RowRef, filename: string): boolean {
+  const ext = path.extname(filename);
+  const stem = path.basename(filename, ext);
+  const prefix = expectedPrefix(row);
+  return (
+    ext === ext.toLowerCase() &&
+    stem.startsWith(prefix) &&
+    /^[a-zA-Z0-9_-]+$/.test(stem.slice(prefix.length))
+  );
+}
+
+export async function scanReconciliation(): Promise<ReconcileReport> {
+  const [cells, roleImages, history, files] = await Promise.all([
+    loadFilenameCells(),
+    loadRoleImages(),
+    readFilenameHistory(),
+    listDownloads(),
+  ]);
+  const onDisk = new Set(files);
+  const byLowerCase = new Map(files.map((f) => [f.toLowerCase(), f]));
+  const referenced = new Set<string>();
+
+  const missing: MissingFile[] = [];
+  const untrimmed: UntrimmedCell[] = [];
+  const nonConforming: NonConformingFile[] = [];
+
+  for (const cell of cells) {
+    const row = { city: cell.city, country: cell.country };
+    const filename = cell.raw.trim();
+    if (cell.raw !== filename) {
+      untrimmed.push({ ...row, raw: cell.raw, filename });
+    }
+
+    let actual = filename;
+    if (!onDisk.has(filename)) {
+      const suggestion = byLowerCase.get(filename.toLowerCase());
+      missing.push({ ...row, filename, suggestion });
+      if (!suggestion) continue;
+      actual = suggestion;
+    }
+    referenced.add(actual);
+    if (!isConforming(row, actual)) {
+      nonConforming.push({
+        ...row,
+        filename: actual,
+        suggestion: conformingName(row, actual),
+      });
+    }
+  }
+
+  for (const { city, country, filename } of roleImages) {
+    if (onDisk.has(filename)) referenced.add(filename);
+    else missing.push({ city, country, filename });
+  }
+  for (const entry of Object.values(history).flat()) {
+    if (entry.filename) referenced.add(entry.filename.trim());
+  }
+
+  return {
+    scannedRows: cells.length,
+    scannedFiles: files.length,
+    missing,
+    untrimmed,
+    nonConforming,
+    orphans: files.filter((f) => !referenced.has(f)),
+  };
+}
+
+async function normalizeCells(
+  report: ReconcileReport,
+  confirm: boolean
+): Promise<ReconcileChange[]> {
+  const fixes = new Map<string, string>();
+  for (const cell of report.untrimmed) fixes.set(cell.raw, cell.filename);
+  for (const m of report.missing) {
+    if (m.suggestion) fixes.set(m.filename, m.suggestion);
+  }
+  // Whitespace and case fixes can stack: " Foo.jpg" → "foo.jpg"
+  const resolve = (raw: string) => {
+    const trimmed = fixes.get(raw) ?? raw;
+    return fixes.get(trimmed) ?? trimmed;
+  };
+
+  const changes: ReconcileChange[] = [];
+  const record = (from: string, to: string, row: RowRef) => {
+    const existing = changes.find((c) => c.from === from);
+    if (existing) existing.rows!.push(row);
+    else changes.push({ action: 'update-cell', from, to, rows: [row] });
+  };
+  const cells = await loadFilenameCells();
+  for (const cell of cells) {
+    const next = resolve(cell.raw);
+    if (next !== cell.raw) {
+      record(cell.raw, next, { city: cell.city, country: cell.country });
+    }
+  }
+  if (confirm && changes.length > 0) {
+    await rewriteFilenameCells((cell) => {
+      const next = resolve(cell.raw);
+      return next !== cell.raw ? next : undefined;
+    });
+  }
+  return changes;
+}
+
+async function renameFiles(
+  report: ReconcileReport,
+  confirm: boolean
+): Promise<ReconcileChange[]> {
+  const usage = new Map<string, NonConformingFile[]>();
+  for (const item of report.nonConforming) {
+    usage.set(item.filename, [...(usage.get(item.filename) ?? []), item]);
+  }
+  const existing = new Set(await listDownloads());
+  const changes: ReconcileChange[] = [];
+  const renamed = new Map<string, string>();
+
+  for (const item of report.nonConforming) {
+    if (changes.some((c) => c.from === item.filename)) continue;
+    const rows = usage.get(item.filename)!;
+    const change: ReconcileChange = {
+      action: 'rename-file',
+      from: item.filename,
+      to: item.suggestion,
+      rows: rows.map(({ city, country }) => ({ city, country })),
+    };
+    if (new Set(rows.map((r) => r.suggestion)).size > 1) {
+      change.skipped = 'File is shared by rows for different locations';
+    } else if (existing.has(item.suggestion)) {
+      change.skipped = 'Target filename already exists';
+    } else if (confirm) {
+      await fs.rename(
+        path.join(downloadsDir(), item.filename),
+        path.join(downloadsDir(), item.suggestion)
+      );
+      existing.add(item.suggestion);
+      renamed.set(item.filename, item.suggestion);
+      await renameVariants(item.filename, item.suggestion);
+      await renameImageMetadata(item.filename, item.suggestion);
+    }
+    changes.push(change);
+  }
+
+  if (renamed.size > 0) {
+    // Cells may not be normalized yet; match ignoring whitespace and case
+    const byLowerCase = new Map(
+      Array.from(renamed, ([from, to]) => [from.toLowerCase(), to])
+    );
+    await rewriteFilenameCells((cell) =>
+      byLowerCase.get(cell.raw.trim().toLowerCase())
+    );
+    await renameRoleImages(renamed);
+  }
+  return changes;
+}
+
+async function deleteOrphans(
+  report: ReconcileReport,
+  confirm: boolean
+): Promise<ReconcileChange[]> {
+  const changes: ReconcileChange[] = [];
+  for (const filename of report.orphans) {
+    changes.push({ action: 'delete-file', from: filename });
+    if (!confirm) continue;
+    await fs.rm(path.join(downloadsDir(), filename), { force: true });
+    await removeVariants(filename);
+    await deleteImageMetadata(filename);
+  }
+  return changes;
+}
+
+/**
+ * Plans (or, with `confirm`, applies) one kind of fix. Run `normalize`
+ * before `rename` so renames see the corrected cells.
+ */
+export async function applyReconcileFix(
+  fix: ReconcileFix,
+  { confirm = false }: { confirm?: boolean } = {}
+): Promise<ReconcileResult> {
+  const report = await scanReconciliation();
+  const changes =
+    fix === 'normalize'
+      ? await normalizeCells(report, confirm)
+      : fix === 'rename'
+        ? await renameFiles(report, confirm)
+        : await deleteOrphans(report, confirm);
+  return {
+    fix,
+    applied: confirm && changes.some((c) => !c.skipped),
+    changes,
+  };
+}
@@ -0,0 +1,105 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { writeFileAtomic } from './files';
+import { createLock } from './lock';
+import {
+  assertWithinRateLimit,
+  ImageProvider,
+  SearchParams,
+  SearchResponse,
+} from './providers';
+
+/**
+ * Normalized search responses keyed by provider, query, page and page size,
+ * kept in memory and persisted to `data/search-cache.json` so restarts
+ * don't spend quota again. Entries expire after `SEARCH_CACHE_TTL` seconds.
+ */
+type CacheEntry = {
+  storedAt: number;
+  response: SearchResponse;
+};
+
+type SearchCache = Record<string, CacheEntry>;
+
+const withCacheLock = createLock();
+
+let memory: SearchCache | null = null;
+
+export function searchCachePath(): string {
+  return path.join(process.cwd(), 'data', 'search-cache.json');
+}
+
+/** Time to live in milliseconds; 0 turns the cache off. */
+export function searchCacheTtl(): number {
+  const value = Number(process.env.SEARCH_CACHE_TTL);
+  return (Number.isFinite(value) && value >= 0 ? value : 3600) * 1000;
+}
+
+export function searchCacheKey(
+  providerId: string,
+  { query, page, perPage }: SearchParams
+): string {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${providerId}|${normalized}|${page}|${perPage}`;
+}
+
+async function loadCache(): Promise<SearchCache> {
+  if (memory) return memory;
+  let text: string;
+  try {
+    text = await fs.readFile(searchCachePath(), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    return (memory = {});
+  }
+  // A corrupt file (e.g. cut short by a crash) is only a cold cache; the
+  // next stored response overwrites it
+  try {
+    const parsed = JSON.parse(text);
+    memory =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? parsed
+        : {};
+  } catch (err) {
+    console.warn(
+      `Ignoring unreadable search cache ${searchCachePath()}:`,
+      (err as Error).message
+    );
+    memory = {};
+  }
+  return memory!;
+}
+
+function storeResponse(key: string, response: SearchResponse): Promise<void> {
+  return withCacheLock(async () => {
+    const cache = await loadCache();
+    const now = Date.now();
+    const ttl = searchCacheTtl();
+    for (const [k, entry] of Object.entries(cache)) {
+      if (now - entry.storedAt >= ttl) delete cache[k];
+    }
+    cache[key] = { storedAt: now, response };
+    await writeFileAtomic(searchCachePath(), JSON.stringify(cache) + '\n');
+  });
+}
+
+/**
+ * Searches a provider through the cache. Misses are refused up front while
+ * the provider's last response said its quota is spent.
+ */
+export async function cachedSearch(
+  provider: ImageProvider,
+  params: SearchParams
+): Promise<SearchResponse> {
+  const ttl = searchCacheTtl();
+  const useCache = provider.cacheable === true && ttl > 0;
+  const key = searchCacheKey(provider.id, params);
+  if (useCache) {
+    const hit = (await loadCache())[key];
+    if (hit && Date.now() - hit.storedAt < ttl) return hit.response;
+  }
+  assertWithinRateLimit(provider);
+  const response = provider.normalize(await provider.search(params));
+  if (useCache) await storeResponse(key, response);
+  return response;
+}
@@ -0,0 +1,189 @@
+import {
+  ImageHit,
+  ImageProvider,
+  ProviderError,
+  SearchResponse,
+} from './providers';
+import {
+  buildQueries,
+  QueryLocation,
+  queryStrategy,
+  QueryStrategy,
+} from './query';
+import { cachedSearch } from './search-cache';
+
+export type QueriedSearchResponse = SearchResponse & {
+  /** Query whose results are returned. */
+  query: string;
+  /** Every query sent, in order. */
+  tried: string[];
+};
+
+/**
+ * Runs each query in turn and returns the first result with at least
+ * `minResults` hits, or the last one tried when none has enough.
+ */
+export async function searchWithFallback(
+  provider: ImageProvider,
+  queries: string[],
+  { page, perPage }: { page: number; perPage: number },
+  minResults: number
+): Promise<QueriedSearchResponse> {
+  if (queries.length === 0) throw new Error('No query to search for');
+  const tried: string[] = [];
+  let result: SearchResponse | null = null;
+  for (const query of queries) {
+    tried.push(query);
+    result = await cachedSearch(provider, { query, page, perPage });
+    if (result.totalHits >= minResults) break;
+  }
+  return {
+    ...result!,
+    hits: result!.hits.map((hit) => ({ ...hit, source: provider.id })),
+    query: tried[tried.length - 1]!,
+    tried,
+  };
+}
+
+/** Searches a provider for a location using the query strategy. */
+export function searchLocation(
+  provider: ImageProvider,
+  location: QueryLocation,
+  params: { page: number; perPage: number },
+  strategy: QueryStrategy = queryStrategy()
+): Promise<QueriedSearchResponse> {
+  return searchWithFallback(
+    provider,
+    buildQueries(location, strategy),
+    params,
+    strategy.minResults
+  );
+}
+
+/** How one provider fared in a federated search. */
+export type SourceOutcome = {
+  source: string;
+  query?: string;
+  totalHits: number;
+  error?: string;
+  status?: number;
+};
+
+export type FederatedSearchResponse = QueriedSearchResponse & {
+  sources: SourceOutcome[];
+};
+
+/**
+ * Runs `search` against every provider in parallel and interleaves the
+ * hits round-robin, so no single source dominates the first page. A failing
+ * provider is reported in `sources`; only when all of them fail is the first
+ * error thrown.
+ */
+export async function federatedSearch(
+  providers: ImageProvider[],
+  search: (provider: ImageProvider) => Promise<QueriedSearchResponse>
+): Promise<FederatedSearchResponse> {
+  const settled = await Promise.allSettled(providers.map(search));
+  const succeeded: QueriedSearchResponse[] = [];
+  const sources = settled.map((outcome, i): SourceOutcome => {
+    const source = providers[i]!.id;
+    if (outcome.status === 'fulfilled') {
+      succeeded.push(outcome.value);
+      return {
+        source,
+        query: outcome.value.query,
+        totalHits: outcome.value.totalHits,
+      };
+    }
+    const err = outcome.reason;
+    return {
+      source,
+      totalHits: 0,
+      error: err instanceof Error ? err.message : 'Unknown error',
+      status: err instanceof ProviderError ? err.status : undefined,
+    };
+  });
+  if (succeeded.length === 0) {
+    const first = settled.find((s) => s.status === 'rejected');
+    throw (
+      (first as PromiseRejectedResult | undefined)?.reason ??
+      new Error('No source to search')
+    );
+  }
+
+  const hits = [];
+  const longest = Math.max(...succeeded.map((r) => r.hits.length));
+  for (let i = 0; i < longest; i++) {
+    for (const result of succeeded) {
+      if (i < result.hits.length) hits.push(result.hits[i]!);
+    }
+  }
+  return {
+    total: succeeded.reduce((sum, r) => sum + r.total, 0),
+    totalHits: succeeded.reduce((sum, r) => sum + r.totalHits, 0),
+    hits,
+    // Follow-up pages reuse the first source's query for everyone
+    query: succeeded[0]!.query,
+    tried: Array.from(new Set(succeeded.flatMap((r) => r.tried))),
+    sources,
+  };
+}
+
+// Searched when neither a query nor a location is given
+const DEFAULT_QUERY = 'london united kingdom';
+
+export type SourceSearch = {
+  /** Used as-is when given; otherwise queries are built from `location`. */
+  query?: string;
+  location?: QueryLocation;
+  page: number;
+  perPage: number;
+};
+
+/**
+ * The search behind `/api/search` and the CLI. Several providers are
+ * searched together, splitting the page between them so a federated page
+ * stays the same size.
+ */
+export function searchSources(
+  providers: ImageProvider[],
+  { query, location, page, perPage }: SourceSearch
+): Promise<QueriedSearchResponse | FederatedSearchResponse> {
+  const search = (provider: ImageProvider, perPage: number) => {
+    const params = { page, perPage };
+    return query || !location
+      ? searchWithFallback(provider, [query || DEFAULT_QUERY], params, 0)
+      : searchLocation(provider, location, params);
+  };
+  if (providers.length === 1) return search(providers[0]!, perPage);
+  return federatedSearch(providers, (provider) =>
+    search(provider, Math.ceil(perPage / providers.length))
+  );
+}
+
+/**
+ * Finds a hit by id among a location's search results, so an image can be
+ * picked by `provider:id` alone. Every query the picker may have shown is
+ * tried, but only its first few pages.
+ */
+export async function findLocationHit(
+  provider: ImageProvider,
+  location: QueryLocation,
+  id: string,
+  { perPage = 50, maxPages = 3 }: { perPage?: number; maxPages?: number } = {}
+): Promise<ImageHit | undefined> {
+  for (const query of buildQueries(location, queryStrategy())) {
+    for (let page = 1; page <= maxPages; page++) {
+      const result = await searchWithFallback(
+        provider,
+        [query],
+        { page, perPage },
+        0
+      );
+      const hit = result.hits.find((h) => String(h.id) === id);
+      if (hit) return hit;
+      if (result.hits.length < perPage) break;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,260 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import sharp, { type OverlayOptions } from 'sharp';
+import { writeFileAtomic } from './files';
+import { downloadsDir } from './image-metadata';
+import { type CropMode, cropImage } from './image-processing';
+import { missingRoles, requiredRoles } from './image-roles';
+import { loadLocations } from './locations';
+import { placeSlug, uniqueSlug } from './slug';
+
+/**
+ * Branded share cards: a downloaded photo cropped to a social format, with
+ * the brand's gradient, the city and country names and an optional logo
+ * laid over it. The template comes from `SHARE_CARD_*`; cards are rendered
+ * to PNG on demand by `/api/share-card` or for every complete location by
+ * `exportShareCards`.
+ */
+export type CardFormat = 'og' | 'square' | 'story';
+
+export type CardSize = { label: string; width: number; height: number };
+
+export const CARD_FORMATS: Record<CardFormat, CardSize> = {
+  og: { label: 'Open Graph', width: 1200, height: 630 },
+  square: { label: 'Square', width: 1080, height: 1080 },
+  story: { label: 'Story', width: 1080, height: 1920 },
+};
+
+export type BrandTemplate = {
+  /** Pango font description, e.g. `Inter Bold`. */
+  font: string;
+  /** Font file providing `font`, when it isn't installed. */
+  fontFile?: string;
+  /** Image placed in the top-left corner. */
+  logo?: string;
+  /** `#rgb` or `#rrggbb`. */
+  textColor: string;
+  /** Gradient over the photo, top to bottom (`#rrggbbaa` for alpha). */
+  gradient: string[];
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Clear at the top, darkening behind the text
+const DEFAULT_GRADIENT = ['#00000000', '#00000000', '#000000b3'];
+
+export function isCardFormat(value: string): value is CardFormat {
+  return Object.hasOwn(CARD_FORMATS, value);
+}
+
+export function brandTemplate(): BrandTemplate {
+  const gradient = (process.env.SHARE_CARD_GRADIENT || '')
+    .split(',')
+    .map((c) => c.trim())
+    .filter((c) => HEX_COLOR.test(c));
+  const textColor = process.env.SHARE_CARD_TEXT_COLOR?.trim() || '';
+  return {
+    font: process.env.SHARE_CARD_FONT?.trim() || 'sans bold',
+    fontFile: process.env.SHARE_CARD_FONT_FILE?.trim() || undefined,
+    logo: process.env.SHARE_CARD_LOGO?.trim() || undefined,
+    textColor: /^#(?:[0-9a-f]{3}){1,2}$/i.test(textColor)
+      ? textColor
+      : '#ffffff',
+    gradient: gradient.length >= 2 ? gradient : DEFAULT_GRADIENT,
+  };
+}
+
+export function shareCardsDir(): string {
+  return path.join(process.cwd(), 'public', 'cards');
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function gradientStop(color: string, offset: number): string {
+  let hex = color.slice(1);
+  if (hex.length === 3) hex = [...hex].map((c) => c + c).join('');
+  const opacity = hex.length === 8 ? parseInt(hex.slice(6), 16) / 255 : 1;
+  return `<stop offset="${offset}" stop-color="#${hex.slice(0, 6)}" stop-opacity="${opacity.toFixed(3)}"/>`;
+}
+
+function gradientLayer(
+  width: number,
+  height: number,
+  colors: string[]
+): Buffer {
+  const stops = colors
+    .map((color, i) => gradientStop(color, i / (colors.length - 1)))
+    .join('');
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="0" y2="1">${stops}</linearGradient></defs>` +
+      `<rect width="${width}" height="${height}" fill="url(#g)"/></svg>`
+  );
+}
+
+/** A line of text scaled down to fit the box (never up past its height). */
+async function textLayer(
+  text: string,
+  width: number,
+  height: number,
+  template: BrandTemplate
+) {
+  const { data, info } = await sharp({
+    text: {
+      text: `<span foreground="${template.textColor}">${escapeMarkup(text)}</span>`,
+      font: template.font,
+      fontfile: template.fontFile,
+      width,
+      height,
+      rgba: true,
+    },
+  })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { input: data, width: info.width, height: info.height };
+}
+
+export type ShareCardInput = {
+  city: string;
+  country: string;
+  /** A file in `public/downloads`. */
+  filename: string;
+  format: CardFormat;
+  /** Defaults to `IMAGE_CROP`; a location's saved focal point wins. */
+  crop?: CropMode;
+  template?: BrandTemplate;
+};
+
+/**
+ * Renders a card as PNG. The photo is cropped like the image's variants;
+ * the names sit bottom-left (clear of the reply bar on stories), the logo
+ * top-left.
+ */
+export async function renderShareCard({
+  city,
+  country,
+  filename,
+  format,
+  crop,
+  template = brandTemplate(),
+}: ShareCardInput): Promise<Buffer> {
+  const { width, height } = CARD_FORMATS[format];
+  const photo = await cropImage(
+    path.join(downloadsDir(), path.basename(filename)),
+    width,
+    height,
+    crop
+  );
+  const unit = Math.min(width, height);
+  const pad = Math.round(unit * 0.06);
+  const textWidth = width - 2 * pad;
+  const countryText = await textLayer(
+    country,
+    textWidth,
+    Math.round(unit * 0.06),
+    template
+  );
+  const cityText = await textLayer(
+    city,
+    textWidth,
+    Math.round(unit * 0.13),
+    template
+  );
+  const countryTop =
+    height - Math.max(pad, Math.round(height * 0.08)) - countryText.height;
+  const layers: OverlayOptions[] = [
+    { input: gradientLayer(width, height, template.gradient), left: 0, top: 0 },
+    {
+      input: cityText.input,
+      left: pad,
+      top: countryTop - Math.round(unit * 0.01) - cityText.height,
+    },
+    { input: countryText.input, left: pad, top: countryTop },
+  ];
+  if (template.logo) {
+    const logo = await sharp(path.resolve(process.cwd(), template.logo))
+      .resize({
+        width: Math.round(width * 0.4),
+        height: Math.round(unit * 0.1),
+        fit: 'inside',
+      })
+      .png()
+      .toBuffer();
+    layers.push({ input: logo, left: pad, top: pad });
+  }
+  return sharp(photo).composite(layers).png().toBuffer();
+}
+
+export type ShareCardExport = {
+  outDir: string;
+  /** Cards written, relative to `outDir`. */
+  written: string[];
+  /** Complete locations whose cards could not be rendered. */
+  errors: string[];
+};
+
+/**
+ * Writes `<slug>-<format>.png` for every location with all its required
+ * images, using its hero (or first image). Slugs are made unique like the
+ * manifest's.
+ */
+export async function exportShareCards({
+  formats = Object.keys(CARD_FORMATS) as CardFormat[],
+  outDir = shareCardsDir(),
+  template = brandTemplate(),
+}: {
+  formats?: CardFormat[];
+  outDir?: string;
+  template?: BrandTemplate;
+} = {}): Promise<ShareCardExport> {
+  const required = requiredRoles();
+  const rows = (await loadLocations()).filter(
+    (row) =>
+      row.images.length > 0 && missingRoles(row.images, required).length === 0
+  );
+  await fs.mkdir(outDir, { recursive: true });
+  const result: ShareCardExport = { outDir, written: [], errors: [] };
+  const slugs = new Set<string>();
+  for (const row of rows) {
+    const slug = await uniqueSlug(placeSlug(row.city, row.country), (s) =>
+      slugs.has(s)
+    );
+    slugs.add(slug);
+    const { filename, crop } = row.images[0]!;
+    const exists = await fs
+      .access(path.join(downloadsDir(), filename))
+      .then(() => true)
+      .catch(() => false);
+    if (!exists) {
+      result.errors.push(`${row.city}, ${row.country}: ${filename} is missing`);
+      continue;
+    }
+    for (const format of formats) {
+      const name = `${slug}-${format}.png`;
+      try {
+        const card = await renderShareCard({
+          city: row.city,
+          country: row.country,
+          filename,
+          format,
+          crop,
+          template,
+        });
+        await writeFileAtomic(path.join(outDir, name), card);
+        result.written.push(name);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        result.errors.push(
+          `${row.city}, ${row.country} (${format}): ${message}`
+        );
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,77 @@
+import { type Db, getDb } from './db';
+
+/**
+ * Locations the curator has set aside, with the reason, kept in the `skips`
+ * table. Skipped rows leave the picker's queue until they are restored or
+ * given an image.
+ */
+export type SkipReason = 'no-good-images' | 'ambiguous-name' | 'other';
+
+export const SKIP_REASONS: Record<SkipReason, string> = {
+  'no-good-images': 'No good images',
+  'ambiguous-name': 'Ambiguous name',
+  other: 'Other',
+};
+
+export type SkippedLocation = {
+  city: string;
+  country: string;
+  reason: SkipReason;
+  note?: string;
+  skippedAt: string;
+};
+
+type SkipRow = {
+  city: string;
+  country: string;
+  reason: SkipReason;
+  note: string | null;
+  skipped_at: string;
+};
+
+export function isSkipReason(value: string): value is SkipReason {
+  return Object.hasOwn(SKIP_REASONS, value);
+}
+
+export async function listSkips(): Promise<SkippedLocation[]> {
+  const rows = getDb()
+    .prepare('SELECT * FROM skips ORDER BY skipped_at DESC')
+    .all() as SkipRow[];
+  return rows.map((row) => ({
+    city: row.city,
+    country: row.country,
+    reason: row.reason,
+    note: row.note ?? undefined,
+    skippedAt: row.skipped_at,
+  }));
+}
+
+/** Skips a location, replacing the reason if it was already skipped. */
+export async function skipLocation(
+  city: string,
+  country: string,
+  reason: SkipReason,
+  note?: string
+): Promise<void> {
+  getDb()
+    .prepare(
+      `INSERT OR REPLACE INTO skips (city, country, reason, note, skipped_at)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(city, country, reason, note || null, new Date().toISOString());
+}
+
+export async function unskipLocation(
+  city: string,
+  country: string
+): Promise<void> {
+  clearSkip(getDb(), city, country);
+}
+
+/** Call inside the transaction that gives the location an image. */
+export function clearSkip(db: Db, city: string, country: string): void {
+  db.prepare('DELETE FROM skips WHERE city = ? AND country = ?').run(
+    city,
+    country
+  );
+}
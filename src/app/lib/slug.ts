@@ -0,0 +1,38 @@
+import { createHash } from 'node:crypto';
+import anyAscii from 'any-ascii';
+
+/**
+ * Slugs used in download filenames and the manifest. Names are
+ * transliterated to ASCII before anything is stripped, so accented and
+ * non-Latin names keep their letters: `"Łódź"` → `"lodz"`, `"Αθήνα"` →
+ * `"athina"`, `"Москва"` → `"moskva"`. ASCII names slug as they always have.
+ */
+export function slugify(input: string): string {
+  const slug = anyAscii(input)
+    .toLowerCase()
+    .replace(/[^a-z0-9\s_-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+  // Nothing survived (punctuation only): still give each name its own slug
+  return slug || createHash('sha1').update(input).digest('hex').slice(0, 8);
+}
+
+/** `<city>-<country>`, the prefix of a location's download filenames. */
+export function placeSlug(city: string, country: string): string {
+  return `${slugify(city)}-${slugify(country)}`;
+}
+
+/**
+ * `slug` itself, or the first of `slug-2`, `slug-3`, … that `isTaken`
+ * accepts.
+ */
+export async function uniqueSlug(
+  slug: string,
+  isTaken: (candidate: string) => boolean | Promise<boolean>
+): Promise<string> {
+  let candidate = slug;
+  for (let n = 2; await isTaken(candidate); n++) candidate = `${slug}-${n}`;
+  return candidate;
+}
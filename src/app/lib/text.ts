@@ -0,0 +1,14 @@
+/** Lowercases and strips diacritics: `"São Tomé"` → `"sao tome"`. */
+export function foldText(input: string): string {
+  return input
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Alphanumeric words of a folded string. */
+export function tokenize(input: string): string[] {
+  return foldText(input)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
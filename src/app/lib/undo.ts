@@ -0,0 +1,111 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  deleteImageMetadata,
+  downloadsDir,
+  readImageMetadata,
+} from './image-metadata';
+import { removeVariants } from './image-processing';
+import type { ImageRole } from './image-roles';
+import {
+  loadFilenameCells,
+  loadRoleImages,
+  revertLocationFilename,
+} from './locations';
+
+/**
+ * Undoing a pick restores the location's previous image for that role (or
+ * removes an added gallery image) and takes the file it picked out of
+ * `public/downloads`: moved to `data/archive/` (with its attribution
+ * alongside) or deleted, per `UNDO_POLICY`. Files still in use elsewhere are
+ * left alone.
+ */
+export type UndoPolicy = 'archive' | 'delete';
+
+export type UndoResult = {
+  role: ImageRole;
+  /** Filename the role has again ('' when it had none). */
+  restored: string;
+  /** The file the undone pick had downloaded. */
+  undone: string;
+  archivedTo?: string;
+  deleted?: boolean;
+};
+
+export function undoPolicy(): UndoPolicy {
+  return process.env.UNDO_POLICY === 'delete' ? 'delete' : 'archive';
+}
+
+export function archiveDir(): string {
+  return path.join(process.cwd(), 'data', 'archive');
+}
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    await fs.copyFile(from, to);
+    await fs.rm(from);
+  }
+}
+
+async function archiveDownload(filename: string): Promise<string> {
+  const dir = archiveDir();
+  await fs.mkdir(dir, { recursive: true });
+  // Timestamped so undoing the same image twice keeps both copies
+  const archived = `${Date.now()}-${filename}`;
+  await moveFile(path.join(downloadsDir(), filename), path.join(dir, archived));
+  const meta = (await readImageMetadata())[filename];
+  if (meta) {
+    await fs.writeFile(
+      path.join(dir, `${archived}.json`),
+      JSON.stringify(meta, null, 2) + '\n',
+      'utf8'
+    );
+  }
+  return path.relative(process.cwd(), path.join(dir, archived));
+}
+
+/** Resolves to null when the location has no pick to undo. */
+export async function undoPick(
+  city: string,
+  country: string,
+  policy: UndoPolicy = undoPolicy()
+): Promise<UndoResult | null> {
+  const entry = await revertLocationFilename(city, country);
+  if (!entry) return null;
+  const result: UndoResult = {
+    role: entry.role,
+    restored: entry.filename,
+    undone: entry.replacedBy,
+  };
+
+  const picked = entry.replacedBy;
+  if (!picked || picked === entry.filename) return result;
+  const [cells, roleImages] = await Promise.all([
+    loadFilenameCells(),
+    loadRoleImages(),
+  ]);
+  if (
+    cells.some((c) => c.raw.trim() === picked) ||
+    roleImages.some((i) => i.filename === picked)
+  ) {
+    return result;
+  }
+  const exists = await fs
+    .stat(path.join(downloadsDir(), picked))
+    .then(() => true)
+    .catch(() => false);
+  if (!exists) return result;
+
+  if (policy === 'archive') {
+    result.archivedTo = await archiveDownload(picked);
+  } else {
+    await fs.rm(path.join(downloadsDir(), picked), { force: true });
+    result.deleted = true;
+  }
+  await removeVariants(picked);
+  await deleteImageMetadata(picked);
+  return result;
+}
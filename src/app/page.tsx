@@ -1,55 +1,108 @@
-import fs from 'node:fs/promises';
-import path from 'node:path';
+import Link from 'next/link';
+import type { CropTarget } from './components/CropEditor';
 import ImagePicker from './components/ImagePicker';
+import { ALIAS_KINDS } from './lib/aliases';
+import { historyKey } from './lib/history';
+import { processingConfig } from './lib/image-processing';
+import { IMAGE_ROLES, missingRoles, requiredRoles } from './lib/image-roles';
+import { loadLocations } from './lib/locations';
+import { CARD_FORMATS } from './lib/share-cards';
+import { listSkips, SKIP_REASONS } from './lib/skips';
 
-type LocationRow = {
-  city: string;
-  country: string;
-  type?: string;
-  filename?: string;
-};
+type SearchParams = { city?: string; country?: string };
 
-async function loadLocations(): Promise<LocationRow[]> {
-  const csvPath = path.join(process.cwd(), 'src', 'app', 'file.csv');
-  const text = await fs.readFile(csvPath, 'utf8');
-  const lines = text.split(/\r?\n/);
-  if (lines.length <= 1) return [];
-  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
-  const cityIdx = header.indexOf('city');
-  const countryIdx = header.indexOf('country');
-  const typeIdx = header.indexOf('type');
-  const filenameIdx = header.indexOf('filename');
-  const rows: LocationRow[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line || line.trim() === '') continue;
-    const fields = line.split(',');
-    const city = fields[cityIdx] ? String(fields[cityIdx]).trim() : '';
-    const country = fields[countryIdx] ? String(fields[countryIdx]).trim() : '';
-    if (!city || !country) continue;
-    const type =
-      typeIdx >= 0 ? String(fields[typeIdx] || '').trim() : undefined;
-    const filename =
-      filenameIdx >= 0 ? String(fields[filenameIdx] || '').trim() : undefined;
-    rows.push({ city, country, type, filename });
+/**
+ * Every ratio a picked image is cropped to: the hero's variants, the square
+ * thumbnail and the share cards. Formats with the same ratio share a box.
+ */
+function cropTargets(): CropTarget[] {
+  const targets: CropTarget[] = [];
+  const add = (label: string, ratio: number) => {
+    const same = targets.find((t) => Math.abs(t.ratio - ratio) < 0.01);
+    if (same) same.label += ` / ${label}`;
+    else targets.push({ label, ratio });
+  };
+  add('Hero', processingConfig().aspectRatio);
+  add('Thumbnail', 1);
+  for (const { label, width, height } of Object.values(CARD_FORMATS)) {
+    add(`${label} card`, width / height);
   }
-  return rows;
+  return targets;
 }
 
-export default async function Home() {
-  const locations = await loadLocations();
-  const incomplete = locations.filter((l) => !l.filename);
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const { city, country } = await searchParams;
+  const [locations, skips] = await Promise.all([loadLocations(), listSkips()]);
+  const skipped = new Set(skips.map((s) => historyKey(s.city, s.country)));
+  const required = requiredRoles();
+  const rows = locations.map((l) => ({
+    ...l,
+    missingRoles: missingRoles(l.images, required),
+  }));
+  const requirement = new Intl.ListFormat('en').format(
+    Object.entries(required).map(([role, count]) =>
+      count > 1 ? `${count} ${role} images` : `a ${role} image`
+    )
+  );
+  // ?city=&country= reopens the picker for one row, e.g. from the gallery
+  const replacing =
+    city && country
+      ? rows.find((l) => l.city === city && l.country === country)
+      : undefined;
+  const queue = replacing
+    ? [replacing]
+    : rows.filter(
+        (l) =>
+          l.missingRoles.length > 0 &&
+          !skipped.has(historyKey(l.city, l.country))
+      );
   return (
     <div className="font-sans min-h-screen p-8 sm:p-12">
       <div className="mx-auto flex flex-col gap-6 ">
-        <h1 className="text-2xl font-semibold tracking-tight">
-          Travel Image Downloader
-        </h1>
-        <p className="text-sm text-foreground/80">
-          Pick a location from CSV, choose an image from Pixabay, download it
-          locally, and we will update the CSV with the filename.
-        </p>
-        <ImagePicker locations={incomplete} />
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-2xl font-semibold tracking-tight">
+            Travel Image Downloader
+          </h1>
+          <nav className="flex gap-4 text-sm">
+            <Link className="underline" href="/skipped">
+              Skipped ({skips.length})
+            </Link>
+            <Link className="underline" href="/gallery">
+              Gallery
+            </Link>
+            <Link className="underline" href="/credits">
+              Credits
+            </Link>
+          </nav>
+        </div>
+        {replacing ? (
+          <p className="text-sm text-foreground/80">
+            Replacing the image for {replacing.city}, {replacing.country}
+            {replacing.filename
+              ? ` (currently ${replacing.filename})`
+              : ''}.{' '}
+            <Link className="underline" href="/">
+              Back to incomplete rows
+            </Link>
+          </p>
+        ) : (
+          <p className="text-sm text-foreground/80">
+            Pick a location from CSV, choose an image from Pixabay, download it
+            locally, and we will update the CSV with the filename. A row is
+            complete once it has {requirement}.
+          </p>
+        )}
+        <ImagePicker
+          locations={queue}
+          skipReasons={SKIP_REASONS}
+          imageRoles={IMAGE_ROLES}
+          aliasKinds={ALIAS_KINDS}
+          cropTargets={cropTargets()}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import Link from 'next/link';
+import { restoreSkippedLocation } from '../actions';
+import { listSkips, SKIP_REASONS } from '../lib/skips';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SkippedPage() {
+  const skips = await listSkips();
+  return (
+    <div className="font-sans min-h-screen p-8 sm:p-12">
+      <div className="mx-auto flex flex-col gap-6 ">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-2xl font-semibold tracking-tight">Skipped</h1>
+          <nav className="flex gap-4 text-sm">
+            <Link className="underline" href="/">
+              Picker
+            </Link>
+            <Link className="underline" href="/gallery">
+              Gallery
+            </Link>
+          </nav>
+        </div>
+        <p className="text-sm text-foreground/80">
+          {skips.length} locations set aside. They stay out of the picker until
+          they are restored or given an image.
+        </p>
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-foreground/60">
+              <th className="py-2 pr-4">Location</th>
+              <th className="py-2 pr-4">Reason</th>
+              <th className="py-2 pr-4">Skipped</th>
+              <th className="py-2 pr-4" />
+            </tr>
+          </thead>
+          <tbody>
+            {skips.map((s) => (
+              <tr
+                key={`${s.city}|${s.country}`}
+                className="border-t border-black/10 dark:border-white/10"
+              >
+                <td className="py-2 pr-4">
+                  {s.city}, {s.country}
+                </td>
+                <td className="py-2 pr-4">
+                  {SKIP_REASONS[s.reason] ?? s.reason}
+                  {s.note ? (
+                    <span className="text-foreground/70"> · {s.note}</span>
+                  ) : null}
+                </td>
+                <td className="py-2 pr-4 text-foreground/70">
+                  {new Date(s.skippedAt).toLocaleString()}
+                </td>
+                <td className="py-2 pr-4">
+                  <div className="flex gap-2 justify-end">
+                    <Link
+                      className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5"
+                      href={`/?${new URLSearchParams({
+                        city: s.city,
+                        country: s.country,
+                      })}`}
+                    >
+                      Pick now
+                    </Link>
+                    <form action={restoreSkippedLocation}>
+                      <input type="hidden" name="city" value={s.city} />
+                      <input type="hidden" name="country" value={s.country} />
+                      <button
+                        type="submit"
+                        className="rounded border border-black/10 dark:border-white/10 px-2 py-1 text-xs hover:bg-black/5 dark:hover:bg-white/5"
+                      >
+                        Restore to queue
+                      </button>
+                    </form>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}